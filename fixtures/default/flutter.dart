@@ -0,0 +1,75 @@
+import 'package:flutter/material.dart';
+
+void main() {
+  runApp(const MyApp());
+}
+
+class MyApp extends StatelessWidget {
+  const MyApp({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return MaterialApp(
+      title: 'Acme Portal',
+      theme: ThemeData(primaryColor: const Color(0xFF1976D2)),
+      home: const LoginScreen(),
+    );
+  }
+}
+
+class LoginScreen extends StatefulWidget {
+  const LoginScreen({super.key});
+
+  @override
+  State<LoginScreen> createState() => _LoginScreenState();
+}
+
+class _LoginScreenState extends State<LoginScreen> {
+  bool remember = false;
+
+  @override
+  Widget build(BuildContext context) {
+    final screenWidth = MediaQuery.of(context).size.width;
+    return Scaffold(
+      backgroundColor: const Color(0xFFF5F5F5),
+      appBar: AppBar(
+        title: const Text('Acme Portal'),
+        backgroundColor: const Color(0xFF1976D2),
+      ),
+      body: Center(
+        child: SizedBox(
+          width: screenWidth < 600 ? screenWidth - 32 : 400,
+          child: Card(
+            child: Padding(
+              padding: const EdgeInsets.all(16),
+              child: Column(
+                mainAxisSize: MainAxisSize.min,
+                crossAxisAlignment: CrossAxisAlignment.stretch,
+                children: [
+                  const Text('Sign in', style: TextStyle(fontSize: 24, fontWeight: FontWeight.bold)),
+                  const SizedBox(height: 16),
+                  Semantics(label: 'Email', child: const TextField(decoration: InputDecoration(labelText: 'Email', hintText: 'you@example.com'))),
+                  const SizedBox(height: 12),
+                  Semantics(label: 'Password', child: const TextField(obscureText: true, decoration: InputDecoration(labelText: 'Password'))),
+                  Semantics(
+                    label: 'Remember me',
+                    child: CheckboxListTile(
+                      value: remember,
+                      onChanged: (value) => setState(() => remember = value ?? false),
+                      title: const Text('Remember me'),
+                    ),
+                  ),
+                  Semantics(
+                    button: true,
+                    label: 'Sign in',
+                    child: ElevatedButton(onPressed: () {}, child: const Text('Sign in')),
+                  ),
+                ],
+              ),
+            ),
+          ),
+        ),
+      ),
+    );
+  }
+}
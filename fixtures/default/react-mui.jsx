@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { AppBar, Toolbar, Typography, Box, Card, CardContent, TextField, Checkbox, FormControlLabel, Button, useMediaQuery, useTheme } from '@mui/material';
+
+const GeneratedComponent = () => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [remember, setRemember] = useState(false);
+
+  return (
+    <Box sx={{ minHeight: '100vh', backgroundColor: '#F5F5F5' }}>
+      <AppBar position="static" sx={{ backgroundColor: '#1976D2' }}>
+        <Toolbar>
+          <Typography variant="h6" component="h1">Acme Portal</Typography>
+        </Toolbar>
+      </AppBar>
+      <Box role="main" aria-label="Sign in" sx={{ display: 'flex', justifyContent: 'center', pt: isMobile ? 4 : 12, px: 2 }}>
+        <Card sx={{ width: isMobile ? '100%' : 400, borderRadius: 2 }}>
+          <CardContent>
+            <Box component="form" role="form" aria-label="Sign in form" sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <Typography variant="h5" sx={{ fontWeight: 700, color: '#212121' }}>Sign in</Typography>
+              <TextField id="email" label="Email" placeholder="you@example.com" value={email} onChange={(e) => setEmail(e.target.value)} inputProps={{ 'aria-label': 'Email' }} />
+              <TextField id="password" label="Password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} inputProps={{ 'aria-label': 'Password' }} />
+              <FormControlLabel control={<Checkbox checked={remember} onChange={(e) => setRemember(e.target.checked)} inputProps={{ 'aria-label': 'Remember me' }} />} label="Remember me" />
+              <Button variant="contained" fullWidth aria-label="Sign in" sx={{ backgroundColor: '#1976D2' }}>Sign in</Button>
+            </Box>
+          </CardContent>
+        </Card>
+      </Box>
+    </Box>
+  );
+};
+
+export default GeneratedComponent;
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Switch, StyleSheet, StatusBar, Dimensions } from 'react-native';
+
+const { width } = Dimensions.get('window');
+
+export default function App() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [remember, setRemember] = useState(false);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.appBar}>
+        <Text style={styles.appBarTitle}>Acme Portal</Text>
+      </View>
+      <View style={styles.card}>
+        <Text style={styles.heading}>Sign in</Text>
+        <TextInput style={styles.input} placeholder="you@example.com" value={email} onChangeText={setEmail} accessible={true} accessibilityLabel="Email" />
+        <TextInput style={styles.input} placeholder="Password" secureTextEntry value={password} onChangeText={setPassword} accessible={true} accessibilityLabel="Password" />
+        <View style={styles.row}>
+          <Switch value={remember} onValueChange={setRemember} accessible={true} accessibilityLabel="Remember me" />
+          <Text style={styles.rowLabel}>Remember me</Text>
+        </View>
+        <TouchableOpacity style={styles.button} accessible={true} accessibilityLabel="Sign in">
+          <Text style={styles.buttonText}>Sign in</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F5F5F5' },
+  appBar: { height: 64, backgroundColor: '#1976D2', justifyContent: 'center', paddingHorizontal: 16 },
+  appBarTitle: { color: '#FFFFFF', fontSize: 20, fontWeight: '500' },
+  card: { margin: 16, width: width < 600 ? width - 32 : 400, alignSelf: 'center', padding: 16, borderRadius: 8, backgroundColor: '#FFFFFF' },
+  heading: { fontSize: 24, fontWeight: '700', color: '#212121', marginBottom: 16 },
+  input: { borderWidth: 1, borderColor: '#BDBDBD', borderRadius: 4, padding: 12, marginBottom: 12 },
+  row: { flexDirection: 'row', alignItems: 'center', marginBottom: 16 },
+  rowLabel: { marginLeft: 8 },
+  button: { backgroundColor: '#1976D2', borderRadius: 4, paddingVertical: 12, alignItems: 'center' },
+  buttonText: { color: '#FFFFFF', fontWeight: '600' },
+});
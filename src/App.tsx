@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Upload, Code, Eye, Settings, Sparkles, Github, Trash2, Play, RefreshCw } from 'lucide-react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Upload, Code, Eye, Settings, Sparkles, Github, Trash2, Play, Square } from 'lucide-react';
 import ImageUpload from './components/ImageUpload';
 import UIDescriptionEditor from './components/UIDescriptionEditor';
 import PromptBox from './components/PromptBox';
@@ -7,15 +7,85 @@ import CodeEditor from './components/CodeEditor';
 import LivePreview from './components/LivePreview';
 import ProgressBar from './components/ProgressBar';
 import NotificationSystem from './components/NotificationSystem';
-import { enhancedAzureOpenAIService } from './services/azureOpenAIService';
+import ProviderSettings from './components/ProviderSettings';
+import CodeDiffDialog from './components/CodeDiffDialog';
+import PaletteEditor from './components/PaletteEditor';
+import ComponentTreeEditor from './components/ComponentTreeEditor';
+import RefinementChat, { type ChatTurn } from './components/RefinementChat';
+import ProjectManager, { type SaveState } from './components/ProjectManager';
+import ScreenFlowEditor from './components/ScreenFlowEditor';
+import DesignTokenEditor from './components/DesignTokenEditor';
+import SharedComponentsDialog from './components/SharedComponentsDialog';
+import BrandThemePanel from './components/BrandThemePanel';
+import { providerRegistry, defaultProviderId } from './services/providers';
+import { isAbortError } from './services/codeGenerationProvider';
+import { validateCode, validateResponsiveDesign, type CodeDiagnostic } from './services/codeValidation';
+import { compileComponent } from './services/codeCompiler';
+import {
+  buildLayoutInstructions,
+  buildRegionInstructions,
+  buildRuntimeRepairInstructions,
+  buildScreenNavigationInstructions,
+  type LinkedScreen,
+} from './services/codeRevision';
+import { collectRegionTexts, findRegionElement, placeRegionDescription, spliceRegion } from './services/regionSplice';
+import type { DesignPalette } from './services/paletteExtraction';
+import { extractDesignTokens, type DesignTokens } from './services/designTokens';
+import { applyBrandTheme, parseBrandTheme, validateBrandTokens, type BrandTheme } from './services/brandTheme';
+import { recordCodeVersion, type CodeVersion } from './services/codeHistory';
+import { createProjectId, projectStore, type Project, type ProjectSummary, type StoredImage } from './services/projectStore';
+import { exportProjectBundle, importProjectBundle, latestCodeByFormat } from './services/projectBundle';
+import { buildProjectScaffold, buildScreenRoutes, type ScaffoldScreen } from './services/projectScaffold';
+import { EMPTY_SCREEN_FLOW, findSharedLayout, removeFlowScreen, type ScreenFlow } from './services/screenFlow';
+import type { ExtractionScreen, SharedComponentFile } from './services/sharedComponents';
+import { analyzeImage, cropImage } from './analysis/client';
+import type { AnalysisProgress, ImageAnalysis } from './analysis/protocol';
+import { buildUIDescriptionPrompt, renderUIDescriptionProse, type UIBounds, type UIDescriptionTree } from './services/uiSchema';
+import type { CodeFormat } from './services/codeGenerationProvider';
+import { openAICompatibleService, type OpenAICompatibleConfig } from './services/openAICompatibleService';
 
 interface ImageData {
   id: string;
   file: File;
   preview: string;
+  // Validated structure returned by the provider; the description below is its prose rendering
+  uiTree: UIDescriptionTree | null;
   description: string;
+  // True once the prose was edited by hand; it is then sent as notes alongside the tree
+  isDescriptionEdited: boolean;
   code: string;
+  // Format the code was written in, which the format selector may no longer match; null without code
+  codeFormat: CodeFormat | null;
   isGenerating: boolean;
+  // True while partial, not yet validated output is being streamed into code
+  isStreaming: boolean;
+  // Results of the last pre-preview compile; cleared whenever the code changes
+  compileDiagnostics: CodeDiagnostic[];
+  // Worker results for the design image; null until analysis finishes or if it failed
+  analysis: ImageAnalysis | null;
+  analysisProgress: AnalysisProgress | null;
+  // Theme colors passed to generation; starts as the analysed palette and is user-editable
+  palette: DesignPalette | null;
+  // Type scale, spacing, radii and shadows; derived once the design is described and user-editable
+  tokens: DesignTokens | null;
+  // Refinement instructions sent for this image's code, oldest first
+  chat: ChatTurn[];
+  // Snapshots of every code version written for this image, oldest first
+  history: CodeVersion[];
+}
+
+// A model-proposed edit waiting for the user to accept or reject it
+interface PendingRevision {
+  imageId: string;
+  original: string;
+  revised: string;
+  title: string;
+  description: string;
+  providerId: string;
+  // Format the revision was requested in
+  codeFormat: CodeFormat;
+  // Set when the revision answers a chat turn
+  chatTurnId?: string;
 }
 
 interface Notification {
@@ -24,74 +94,64 @@ interface Notification {
   type: 'success' | 'error' | 'info' | 'warning';
 }
 
-interface ValidationResult {
-  valid: boolean;
-  message: string;
-}
+// What code generation receives for an image
+const buildGenerationDescription = (image: ImageData, codeFormat: CodeFormat): string =>
+  image.uiTree
+    ? buildUIDescriptionPrompt(image.uiTree, codeFormat, image.isDescriptionEdited ? image.description : undefined)
+    : image.description;
 
-// Enhanced validateCode with accessibility and responsive checks
-const validateCode = (code: string, format: 'react-mui' | 'react-native' | 'flutter'): ValidationResult => {
-  if (!code) {
-    return { valid: false, message: 'No code provided' };
-  }
-  if (!code.includes('return')) {
-    return { valid: false, message: 'Code must contain a return statement' };
-  }
-  if (format === 'react-mui') {
-    if (!code.includes('aria-label') && !code.includes('role')) {
-      return { valid: false, message: 'React-MUI code must include accessibility attributes (e.g., aria-label, role)' };
-    }
-    if (!code.includes('GeneratedComponent')) {
-      return { valid: false, message: 'React-MUI code must define GeneratedComponent' };
-    }
-    if (!/<[A-Za-z][^>]*>/.test(code)) {
-      return { valid: false, message: 'React-MUI code must contain valid JSX' };
-    }
-    if (!code.includes('useMediaQuery') && !code.includes('breakpoints')) {
-      return { valid: false, message: 'React-MUI code must include responsive breakpoints' };
-    }
-  } else if (format === 'react-native') {
-    if (!code.includes('accessible={true}') && !code.includes('accessibilityLabel')) {
-      return { valid: false, message: 'React Native code must include accessibility props (e.g., accessible, accessibilityLabel)' };
-    }
-    if (!code.includes('App')) {
-      return { valid: false, message: 'React Native code must define an App component' };
-    }
-    if (!code.includes('Dimensions')) {
-      return { valid: false, message: 'React Native code must use Dimensions for responsive design' };
-    }
-  } else if (format === 'flutter') {
-    if (!code.includes('Semantics')) {
-      return { valid: false, message: 'Flutter code must include Semantics widgets for accessibility' };
-    }
-    if (!code.includes('App')) {
-      return { valid: false, message: 'Flutter code must define an App component' };
-    }
-    if (!code.includes('MediaQuery')) {
-      return { valid: false, message: 'Flutter code must use MediaQuery for responsive design' };
-    }
-  }
-  return { valid: true, message: '' };
-};
+const toStoredImage = ({
+  id, file, uiTree, description, isDescriptionEdited, code, codeFormat, analysis, palette, tokens, chat, history,
+}: ImageData): StoredImage => ({ id, file, uiTree, description, isDescriptionEdited, code, codeFormat, analysis, palette, tokens, chat, history });
 
-// Simulate multiple viewport sizes for responsive validation
-const validateResponsiveDesign = (code: string, format: string): string[] => {
-  const issues = [];
-  const viewportWidths = [320, 768, 1280]; // Mobile, tablet, desktop
-  for (const width of viewportWidths) {
-    if (format === 'react-mui' && !code.includes(`breakpoints\.down\('sm'\)`) && width <= 768) {
-      issues.push(`Layout may not adapt correctly for mobile (width=${width}px). Add sm breakpoint handling.`);
-    }
-    if (format === 'react-native' && !code.includes(`Dimensions\.get\('window'\)\.width < ${width}`)) {
-      issues.push(`Layout may not scale for width=${width}px. Use Dimensions for dynamic sizing.`);
-    }
-    if (format === 'flutter' && !code.includes(`screenWidth < ${width}`)) {
-      issues.push(`Layout may not adjust for width=${width}px. Use MediaQuery for responsive design.`);
-    }
-  }
-  return issues;
+// Turns cut off by a reload can no longer be reviewed
+const restoreImage = (image: StoredImage): ImageData => ({
+  ...image,
+  preview: URL.createObjectURL(image.file),
+  // Projects saved before tokens existed
+  tokens: image.tokens ?? null,
+  isGenerating: false,
+  isStreaming: false,
+  compileDiagnostics: [],
+  analysisProgress: null,
+  chat: image.chat.map((turn) =>
+    turn.status === 'pending' || turn.status === 'review' ? { ...turn, status: 'failed', note: 'interrupted by reload' } : turn
+  ),
+});
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 };
 
+// Every image with code in the given format, as the screens of an exported project
+const collectExportScreens = (images: ImageData[], codeFormat: CodeFormat): ExtractionScreen[] =>
+  images.flatMap((img) => {
+    const code = latestCodeByFormat(img).get(codeFormat);
+    return code ? [{ id: img.id, name: img.file.name, code }] : [];
+  });
+
+// Theme for exports and the preview; a loaded brand theme overrides what was detected in the design
+const resolveTheme = (
+  brandTheme: BrandTheme | null,
+  image?: Pick<ImageData, 'palette' | 'tokens'>
+): { palette: DesignPalette | null; tokens: DesignTokens | null } =>
+  brandTheme
+    ? applyBrandTheme(brandTheme, image?.palette ?? null, image?.tokens ?? null)
+    : { palette: image?.palette ?? null, tokens: image?.tokens ?? null };
+
+// Changes are written to IndexedDB once editing pauses for this long
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Automatic repairs per image while the preview stays open; the Repair button still works afterwards
+const MAX_AUTO_REPAIRS = 3;
+
 function App() {
   const [images, setImages] = useState<ImageData[]>([]);
   const [selectedImageId, setSelectedImageId] = useState<string>('');
@@ -99,11 +159,38 @@ function App() {
   const [deviceType, setDeviceType] = useState<'desktop' | 'mobile' | 'react-native' | 'flutter'>('desktop');
   const [codeFormat, setCodeFormat] = useState<'react-mui' | 'react-native' | 'flutter'>('react-mui');
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isCompiling, setIsCompiling] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [pendingRevision, setPendingRevision] = useState<PendingRevision | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [globalProgress, setGlobalProgress] = useState(0);
   const [isGeneratingAll, setIsGeneratingAll] = useState(false);
   const [viewportWidth, setViewportWidth] = useState(1280);
+  const [providerId, setProviderId] = useState<string>(defaultProviderId);
+  const [brandTheme, setBrandTheme] = useState<BrandTheme | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [project, setProject] = useState<Pick<ProjectSummary, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>('saved');
+  const [screenFlow, setScreenFlow] = useState<ScreenFlow>(EMPTY_SCREEN_FLOW);
+  // What the running app generation is doing, null when idle
+  const [appBuildStatus, setAppBuildStatus] = useState<string | null>(null);
+  // Screens under review for shared component extraction; null while the dialog is closed
+  const [extractionScreens, setExtractionScreens] = useState<ExtractionScreen[] | null>(null);
+  const [openAICompatibleConfig, setOpenAICompatibleConfig] = useState<OpenAICompatibleConfig>(
+    openAICompatibleService.getConfig()
+  );
   const previewRef = useRef<HTMLIFrameElement>(null);
+  const generationControllers = useRef(new Map<string, AbortController>());
+  const generateAllController = useRef<AbortController | null>(null);
+  // Images stopped or removed while still queued in a Generate All batch
+  const skippedBatchImages = useRef(new Set<string>());
+  const repairController = useRef<AbortController | null>(null);
+  const repairAttempts = useRef(new Map<string, number>());
+  const appBuildController = useRef<AbortController | null>(null);
+  // Set when a project was just loaded, so loading it doesn't immediately save it back
+  const skipAutosave = useRef(false);
+  // The snapshot the debounced autosave will write, kept so it can be flushed before the workspace is replaced
+  const pendingSave = useRef<Omit<Project, 'imageCount' | 'updatedAt'> | null>(null);
 
   const addNotification = useCallback((message: string, type: Notification['type'] = 'info') => {
     const id = Date.now().toString();
@@ -113,48 +200,483 @@ function App() {
     }, 5000);
   }, []);
 
+  // One summary per screen; the individual values are marked in the editor
+  const notifyOffBrandValues = useCallback((fileName: string, offBrand: CodeDiagnostic[]) => {
+    if (offBrand.length === 0) return;
+    addNotification(
+      `${offBrand.length} color${offBrand.length === 1 ? '' : 's'} or font size${offBrand.length === 1 ? '' : 's'} in ${fileName} ${offBrand.length === 1 ? 'is' : 'are'} not in the brand theme`,
+      'warning'
+    );
+  }, [addNotification]);
+
+  // Revisions are checked against the brand theme like generations, before they are reviewed
+  const proposeRevision = useCallback((revision: PendingRevision, fileName: string) => {
+    if (brandTheme) {
+      notifyOffBrandValues(fileName, validateBrandTokens(revision.revised, brandTheme, revision.codeFormat));
+    }
+    setPendingRevision(revision);
+  }, [brandTheme, notifyOffBrandValues]);
+
+  useEffect(() => {
+    openAICompatibleService.configure(openAICompatibleConfig);
+  }, [openAICompatibleConfig]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await projectStore.list());
+    } catch (error) {
+      console.error('Error listing projects:', error);
+    }
+  }, []);
+
+  // Writes the pending autosave snapshot right away; a no-op when nothing is waiting
+  const flushSave = useCallback(() => {
+    const snapshot = pendingSave.current;
+    if (!snapshot) return;
+    pendingSave.current = null;
+    projectStore.save(snapshot)
+      .then((summary) => {
+        setSaveState('saved');
+        setProjects((prev) => [summary, ...prev.filter((entry) => entry.id !== summary.id)]);
+      })
+      .catch((error) => {
+        console.error('Error saving project:', error);
+        setSaveState('error');
+      });
+  }, []);
+
+  // Stops in-flight work and frees image previews before another project replaces the workspace
+  const resetWorkspace = useCallback(() => {
+    flushSave();
+    generateAllController.current?.abort();
+    generationControllers.current.forEach((controller) => controller.abort());
+    repairController.current?.abort();
+    appBuildController.current?.abort();
+    setPendingRevision(null);
+    setIsPreviewOpen(false);
+    setImages((prev) => {
+      prev.forEach((img) => URL.revokeObjectURL(img.preview));
+      return [];
+    });
+  }, [flushSave]);
+
+  const createProject = useCallback(() => {
+    resetWorkspace();
+    setSelectedImageId('');
+    setUserPrompt('');
+    setBrandTheme(null);
+    setScreenFlow(EMPTY_SCREEN_FLOW);
+    setProject({ id: createProjectId(), name: 'Untitled project', createdAt: Date.now() });
+  }, [resetWorkspace]);
+
+  const openProject = useCallback(async (id: string) => {
+    try {
+      const stored = await projectStore.load(id);
+      if (!stored) {
+        addNotification('That project no longer exists', 'error');
+        refreshProjects();
+        return;
+      }
+      resetWorkspace();
+      skipAutosave.current = true;
+      setImages(stored.images.map(restoreImage));
+      setSelectedImageId(stored.settings.selectedImageId);
+      setUserPrompt(stored.settings.userPrompt);
+      setDeviceType(stored.settings.deviceType);
+      setCodeFormat(stored.settings.codeFormat);
+      setViewportWidth(stored.settings.viewportWidth);
+      setProviderId(providerRegistry.has(stored.settings.providerId) ? stored.settings.providerId : defaultProviderId);
+      setBrandTheme(stored.settings.brandTheme);
+      setScreenFlow(stored.flow);
+      setProject({ id: stored.id, name: stored.name, createdAt: stored.createdAt });
+      setSaveState('saved');
+    } catch (error) {
+      console.error('Error opening project:', error);
+      addNotification('Failed to open the project', 'error');
+    }
+  }, [resetWorkspace, refreshProjects, addNotification]);
+
+  // Reopens the most recent project after a reload
+  useEffect(() => {
+    projectStore.list()
+      .then((summaries) => {
+        setProjects(summaries);
+        if (summaries.length > 0) {
+          openProject(summaries[0].id);
+        } else {
+          createProject();
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading projects:', error);
+        addNotification('Projects cannot be saved in this browser; work will be lost on reload', 'warning');
+        createProject();
+      });
+  }, [openProject, createProject, addNotification]);
+
+  useEffect(() => {
+    if (!project) return;
+    if (skipAutosave.current) {
+      skipAutosave.current = false;
+      return;
+    }
+    // Partial streamed code is never persisted; the result is saved once the stream ends
+    if (images.some((img) => img.isStreaming)) return;
+    setSaveState('saving');
+    pendingSave.current = {
+      ...project,
+      settings: { userPrompt, deviceType, codeFormat, viewportWidth, providerId, selectedImageId, brandTheme },
+      images: images.map(toStoredImage),
+      flow: screenFlow,
+    };
+    // Clearing the timer leaves the snapshot pending; the next run replaces it or a project switch flushes it
+    const timer = setTimeout(flushSave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, images, screenFlow, userPrompt, deviceType, codeFormat, viewportWidth, providerId, selectedImageId, brandTheme, flushSave]);
+
+  // Best effort: IndexedDB may not finish the write before the page goes away
+  useEffect(() => {
+    window.addEventListener('beforeunload', flushSave);
+    return () => window.removeEventListener('beforeunload', flushSave);
+  }, [flushSave]);
+
+  const renameProject = useCallback(async (id: string, name: string) => {
+    if (id === project?.id) {
+      setProject({ ...project, name });
+      return;
+    }
+    try {
+      await projectStore.rename(id, name);
+      refreshProjects();
+    } catch (error) {
+      console.error('Error renaming project:', error);
+      addNotification('Failed to rename the project', 'error');
+    }
+  }, [project, refreshProjects, addNotification]);
+
+  const duplicateProject = useCallback(async (id: string) => {
+    try {
+      const copy = await projectStore.duplicate(id);
+      refreshProjects();
+      addNotification(`Created "${copy.name}"`, 'success');
+    } catch (error) {
+      console.error('Error duplicating project:', error);
+      addNotification('Failed to duplicate the project', 'error');
+    }
+  }, [refreshProjects, addNotification]);
+
+  const deleteProject = useCallback(async (id: string) => {
+    // Detaching first and dropping the pending snapshot keep the autosave from writing the project back
+    if (id === project?.id) {
+      pendingSave.current = null;
+      setProject(null);
+    }
+    try {
+      await projectStore.delete(id);
+      const remaining = projects.filter((entry) => entry.id !== id);
+      setProjects(remaining);
+      if (id === project?.id) {
+        if (remaining.length > 0) {
+          openProject(remaining[0].id);
+        } else {
+          createProject();
+        }
+      }
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      if (id === project?.id) setProject(project);
+      addNotification('Failed to delete the project', 'error');
+    }
+  }, [projects, project, openProject, createProject, addNotification]);
+
+  const exportProject = useCallback(async () => {
+    if (!project) return;
+    try {
+      const archive = await exportProjectBundle({
+        ...project,
+        settings: { userPrompt, deviceType, codeFormat, viewportWidth, providerId, selectedImageId, brandTheme },
+        images: images.map(toStoredImage),
+        flow: screenFlow,
+      });
+      downloadBlob(archive, `${project.name.replace(/[^\w-]+/g, '-')}.zip`);
+    } catch (error) {
+      console.error('Error exporting project:', error);
+      addNotification('Failed to export the project', 'error');
+    }
+  }, [project, images, screenFlow, userPrompt, deviceType, codeFormat, viewportWidth, providerId, selectedImageId, brandTheme, addNotification]);
+
+  const importProject = useCallback(async (archive: File) => {
+    try {
+      const imported = await importProjectBundle(archive);
+      await projectStore.save(imported);
+      await refreshProjects();
+      await openProject(imported.id);
+      addNotification(`Imported "${imported.name}"`, 'success');
+    } catch (error) {
+      console.error('Error importing project:', error);
+      addNotification(`Failed to import ${archive.name}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  }, [refreshProjects, openProject, addNotification]);
+
+  const downloadScaffold = useCallback(async (screens: ExtractionScreen[], components?: SharedComponentFile[]) => {
+    const skipped = images.length - screens.length;
+    // The selected screen's palette and tokens theme the app, falling back to any screen that has them
+    const themed = images.find((img) => img.id === selectedImageId && (img.palette || img.tokens)) ??
+      images.find((img) => img.palette || img.tokens);
+    const theme = resolveTheme(brandTheme, themed);
+    try {
+      const archive = await buildProjectScaffold({
+        projectName: project?.name ?? 'Generated app',
+        codeFormat,
+        screens,
+        palette: theme.palette,
+        tokens: theme.tokens,
+        components,
+      });
+      downloadBlob(archive, `${(project?.name ?? 'generated-app').replace(/[^\w-]+/g, '-')}-${codeFormat}.zip`);
+      if (skipped > 0) {
+        addNotification(`${skipped} image${skipped === 1 ? ' has' : 's have'} no ${codeFormat} code and ${skipped === 1 ? 'was' : 'were'} left out`, 'warning');
+      }
+    } catch (error) {
+      console.error('Error exporting project scaffold:', error);
+      addNotification(`Failed to export the project: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  }, [images, selectedImageId, codeFormat, project, brandTheme, addNotification]);
+
+  const exportScaffold = useCallback(() => {
+    downloadScaffold(collectExportScreens(images, codeFormat));
+  }, [images, codeFormat, downloadScaffold]);
+
+  const openSharedComponents = useCallback(() => {
+    const screens = collectExportScreens(images, codeFormat);
+    if (screens.length === 0) {
+      addNotification(`Generate ${codeFormat} code for at least one image first`, 'warning');
+      return;
+    }
+    setExtractionScreens(screens);
+  }, [images, codeFormat, addNotification]);
+
+  const exportWithSharedComponents = useCallback((result: { components: SharedComponentFile[]; screens: ExtractionScreen[] }) => {
+    setExtractionScreens(null);
+    downloadScaffold(result.screens, result.components);
+  }, [downloadScaffold]);
+
+  // Builds one routed app from the linked screens: the shared layout is cut out of one screen's code
+  // and removed from the others, and each transition becomes a navigation call
+  const generateRoutedApp = useCallback(async () => {
+    const screens = screenFlow.screenIds.flatMap((id) => {
+      const image = images.find((img) => img.id === id);
+      const code = image && latestCodeByFormat(image).get(codeFormat);
+      return image && code ? [{ image, code }] : [];
+    });
+    if (screens.length < screenFlow.screenIds.length) {
+      addNotification(`Generate ${codeFormat} code for every linked screen first`, 'warning');
+      return;
+    }
+    const controller = new AbortController();
+    appBuildController.current = controller;
+    const provider = providerRegistry.get(providerId);
+    const routes = buildScreenRoutes(screens.map(({ image }) => image.file.name));
+    const linkedScreens: LinkedScreen[] = screens.map(({ image }, i) => ({ name: image.file.name, route: routes[i] }));
+    const layout = findSharedLayout(screens.flatMap(({ image }) => (image.uiTree ? [{ id: image.id, tree: image.uiTree }] : [])));
+    const theme = resolveTheme(brandTheme, screens.find(({ image }) => image.palette || image.tokens)?.image);
+    const palette = theme.palette ?? undefined;
+    try {
+      let layoutCode: string | undefined;
+      if (layout) {
+        setAppBuildStatus('Extracting the shared layout');
+        const reference = screens.find(({ image }) => image.id === layout.referenceId)!;
+        layoutCode = await provider.reviseCode({
+          code: reference.code,
+          instructions: buildLayoutInstructions(layout.nodes, linkedScreens, codeFormat),
+          codeFormat,
+        }, { signal: controller.signal, palette, brandTheme: brandTheme ?? undefined });
+        if (brandTheme) notifyOffBrandValues('the shared layout', validateBrandTokens(layoutCode, brandTheme, codeFormat));
+      }
+      const routedScreens: ScaffoldScreen[] = [];
+      for (const [i, { image, code }] of screens.entries()) {
+        const links = screenFlow.transitions
+          .filter((transition) => transition.fromImageId === image.id)
+          .map((transition) => ({
+            trigger: transition.trigger,
+            target: linkedScreens[screens.findIndex((screen) => screen.image.id === transition.toImageId)],
+          }));
+        const layoutNodes = layout?.screens.find((screen) => screen.id === image.id)?.nodes ?? [];
+        // Flutter screens always change, since each one builds its own MaterialApp
+        if (links.length === 0 && layoutNodes.length === 0 && codeFormat !== 'flutter') {
+          routedScreens.push({ name: image.file.name, code });
+          continue;
+        }
+        setAppBuildStatus(`Wiring navigation into ${image.file.name} (${i + 1}/${screens.length})`);
+        const revised = await provider.reviseCode({
+          code,
+          instructions: buildScreenNavigationInstructions(links, layoutNodes, codeFormat),
+          codeFormat,
+        }, { signal: controller.signal, palette: image.palette ?? undefined, brandTheme: brandTheme ?? undefined });
+        if (brandTheme) notifyOffBrandValues(image.file.name, validateBrandTokens(revised, brandTheme, codeFormat));
+        routedScreens.push({ name: image.file.name, code: revised, inLayout: layoutNodes.length > 0 });
+      }
+      const archive = await buildProjectScaffold({
+        projectName: project?.name ?? 'Generated app',
+        codeFormat,
+        screens: routedScreens,
+        palette,
+        tokens: theme.tokens,
+        navigation: { layoutCode },
+      });
+      downloadBlob(archive, `${(project?.name ?? 'generated-app').replace(/[^\w-]+/g, '-')}-${codeFormat}-app.zip`);
+      addNotification(`Generated a ${screens.length}-screen app${layout ? ' with a shared layout' : ''}`, 'success');
+    } catch (error) {
+      if (isAbortError(error)) {
+        addNotification('App generation stopped', 'info');
+      } else {
+        console.error('Error generating the app:', error);
+        addNotification(`Failed to generate the app: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+      }
+    } finally {
+      appBuildController.current = null;
+      setAppBuildStatus(null);
+    }
+  }, [screenFlow, images, codeFormat, providerId, project, brandTheme, notifyOffBrandValues, addNotification]);
+
+  const stopRoutedApp = useCallback(() => {
+    appBuildController.current?.abort();
+  }, []);
+
   const handleImagesUploaded = useCallback(async (files: File[]) => {
     const newImages: ImageData[] = files.map((file) => ({
       id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
       file,
       preview: URL.createObjectURL(file),
+      uiTree: null,
       description: '',
+      isDescriptionEdited: false,
       code: '',
+      codeFormat: null,
       isGenerating: false,
+      isStreaming: false,
+      compileDiagnostics: [],
+      analysis: null,
+      analysisProgress: null,
+      palette: null,
+      tokens: null,
+      chat: [],
+      history: [],
     }));
     setImages((prev) => [...prev, ...newImages]);
     if (newImages.length > 0 && !selectedImageId) {
       setSelectedImageId(newImages[0].id);
     }
+    // Queued images get their controllers up front, so removing one or switching projects stops it too
+    const controllers = new Map(newImages.map((image) => [image.id, new AbortController()]));
+    controllers.forEach((controller, id) => generationControllers.current.set(id, controller));
     for (const image of newImages) {
+      const controller = controllers.get(image.id)!;
+      if (controller.signal.aborted) {
+        generationControllers.current.delete(image.id);
+        continue;
+      }
       try {
         setImages((prev) => prev.map((img) =>
           img.id === image.id ? { ...img, isGenerating: true } : img
         ));
-        const description = await enhancedAzureOpenAIService.generateUIDescription(image.file);
+        let analysis: ImageAnalysis | undefined;
+        try {
+          analysis = await analyzeImage(image.file, {
+            signal: controller.signal,
+            onProgress: (analysisProgress) => setImages((prev) => prev.map((img) =>
+              img.id === image.id ? { ...img, analysisProgress } : img
+            )),
+          });
+          const result = analysis;
+          setImages((prev) => prev.map((img) =>
+            img.id === image.id ? { ...img, analysis: result, palette: result.palette, analysisProgress: null } : img
+          ));
+        } catch (error) {
+          // The description can still be generated from the image alone
+          controller.signal.throwIfAborted();
+          console.error('Error analyzing image:', error);
+          setImages((prev) => prev.map((img) =>
+            img.id === image.id ? { ...img, analysisProgress: null } : img
+          ));
+          addNotification(`Could not analyze ${image.file.name}; describing it without OCR and colors`, 'warning');
+        }
+        const uiTree = await providerRegistry.get(providerId).generateUIDescription(image.file, {
+          signal: controller.signal,
+          analysis,
+        });
+        const description = renderUIDescriptionProse(uiTree);
         setImages((prev) => prev.map((img) =>
-          img.id === image.id ? { ...img, description, isGenerating: false } : img
+          img.id === image.id
+            ? { ...img, uiTree, description, isDescriptionEdited: false, tokens: extractDesignTokens(analysis ?? null, uiTree), isGenerating: false }
+            : img
         ));
         addNotification(`Description generated for ${image.file.name}`, 'success');
       } catch (error) {
-        console.error('Error generating description:', error);
         setImages((prev) => prev.map((img) =>
-          img.id === image.id ? { ...img, isGenerating: false } : img
+          img.id === image.id ? { ...img, isGenerating: false, analysisProgress: null } : img
         ));
-        addNotification(`Failed to generate description for ${image.file.name}`, 'error');
+        if (isAbortError(error)) {
+          addNotification(`Description generation cancelled for ${image.file.name}`, 'info');
+        } else {
+          console.error('Error generating description:', error);
+          addNotification(`Failed to generate description for ${image.file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+        }
+      } finally {
+        generationControllers.current.delete(image.id);
       }
     }
-  }, [selectedImageId, addNotification]);
+  }, [selectedImageId, providerId, addNotification]);
 
   const handleDescriptionChange = useCallback((imageId: string, description: string) => {
     setImages((prev) => prev.map((img) =>
-      img.id === imageId ? { ...img, description } : img
+      img.id === imageId ? { ...img, description, isDescriptionEdited: true } : img
+    ));
+  }, []);
+
+  // Untouched prose follows the tree; hand-edited prose is kept until reset
+  const handleTreeChange = useCallback((imageId: string, uiTree: UIDescriptionTree) => {
+    setImages((prev) => prev.map((img) =>
+      img.id === imageId
+        ? { ...img, uiTree, description: img.isDescriptionEdited ? img.description : renderUIDescriptionProse(uiTree) }
+        : img
+    ));
+  }, []);
+
+  const resetDescription = useCallback((imageId: string) => {
+    setImages((prev) => prev.map((img) =>
+      img.id === imageId && img.uiTree
+        ? { ...img, description: renderUIDescriptionProse(img.uiTree), isDescriptionEdited: false }
+        : img
     ));
   }, []);
 
+  const handlePaletteChange = useCallback((imageId: string, palette: DesignPalette) => {
+    setImages((prev) => prev.map((img) =>
+      img.id === imageId ? { ...img, palette } : img
+    ));
+  }, []);
+
+  const handleTokensChange = useCallback((imageId: string, tokens: DesignTokens) => {
+    setImages((prev) => prev.map((img) =>
+      img.id === imageId ? { ...img, tokens } : img
+    ));
+  }, []);
+
+  const importBrandTheme = useCallback(async (file: File) => {
+    try {
+      const theme = parseBrandTheme(file.name, await file.text());
+      setBrandTheme(theme);
+      addNotification(`Imported ${theme.tokens.length} brand tokens from ${file.name}`, 'success');
+    } catch (error) {
+      console.error('Error importing brand theme:', error);
+      addNotification(`Failed to import ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  }, [addNotification]);
+
   const handleCodeChange = useCallback((imageId: string, code: string) => {
     setImages((prev) => prev.map((img) =>
-      img.id === imageId ? { ...img, code } : img
+      img.id === imageId ? { ...img, code, compileDiagnostics: [] } : img
     ));
   }, []);
 
@@ -164,32 +686,123 @@ function App() {
       addNotification('Please ensure the image has a description', 'warning');
       return;
     }
+    const controller = new AbortController();
+    generationControllers.current.set(imageId, controller);
     try {
       setImages((prev) => prev.map((img) =>
-        img.id === imageId ? { ...img, isGenerating: true } : img
+        img.id === imageId ? { ...img, codeFormat, isGenerating: true, isStreaming: true } : img
       ));
-      const code = await enhancedAzureOpenAIService.generateReactCode(
-        image.description,
+      const code = await providerRegistry.get(providerId).generateReactCode(
+        buildGenerationDescription(image, codeFormat),
         userPrompt,
         deviceType,
-        codeFormat
+        codeFormat,
+        {
+          signal: controller.signal,
+          onToken: (partialCode) => handleCodeChange(image.id, partialCode),
+          palette: image.palette ?? undefined,
+          tokens: image.tokens ?? undefined,
+          brandTheme: brandTheme ?? undefined,
+        }
       );
       const responsiveIssues = validateResponsiveDesign(code, codeFormat);
       if (responsiveIssues.length > 0) {
         responsiveIssues.forEach((issue) => addNotification(issue, 'warning'));
       }
+      if (brandTheme) {
+        notifyOffBrandValues(image.file.name, validateBrandTokens(code, brandTheme, codeFormat));
+      }
+      const history = recordCodeVersion(image.history, image, {
+        code, source: 'generation', providerId, prompt: userPrompt || undefined, codeFormat,
+      });
       setImages((prev) => prev.map((img) =>
-        img.id === image.id ? { ...img, code, isGenerating: false } : img
+        img.id === image.id
+          ? { ...img, code, history, compileDiagnostics: [], isGenerating: false, isStreaming: false }
+          : img
       ));
       addNotification(`Code generated for ${image.file.name}`, 'success');
     } catch (error) {
-      console.error('Error generating code:', error);
+      // Partial streamed output is discarded in favour of the code we started from
+      setImages((prev) => prev.map((img) =>
+        img.id === image.id ? { ...img, code: image.code, codeFormat: image.codeFormat, isGenerating: false, isStreaming: false } : img
+      ));
+      if (isAbortError(error)) {
+        addNotification(`Code generation cancelled for ${image.file.name}`, 'info');
+      } else {
+        console.error('Error generating code:', error);
+        addNotification(`Failed to generate code for ${image.file.name}`, 'error');
+      }
+    } finally {
+      generationControllers.current.delete(imageId);
+    }
+  }, [images, handleCodeChange, userPrompt, deviceType, codeFormat, providerId, brandTheme, notifyOffBrandValues, addNotification]);
+
+  // Describes only the selected part of the design and swaps the matching element in the current code,
+  // so manual edits elsewhere in the file survive
+  const regenerateRegion = useCallback(async (imageId: string, region: UIBounds) => {
+    const image = images.find((img) => img.id === imageId);
+    if (!image?.code || !image.uiTree) return;
+    // The region is described and spliced in the format the current code is in, not the selector's
+    if (!image.codeFormat) {
+      addNotification(`Generate code for ${image.file.name} before regenerating a region`, 'warning');
+      return;
+    }
+    if (image.codeFormat === 'flutter') {
+      addNotification('Region regeneration is not available for Flutter code yet', 'warning');
+      return;
+    }
+    const controller = new AbortController();
+    generationControllers.current.set(imageId, controller);
+    setImages((prev) => prev.map((img) =>
+      img.id === imageId ? { ...img, isGenerating: true } : img
+    ));
+    try {
+      const provider = providerRegistry.get(providerId);
+      const regionTree = placeRegionDescription(
+        await provider.generateUIDescription(await cropImage(image.file, region), { signal: controller.signal }),
+        region
+      );
+      const target = findRegionElement(image.code, [
+        ...collectRegionTexts(image.uiTree, region),
+        ...collectRegionTexts(regionTree, region),
+      ]);
+      if (!target) {
+        addNotification('Could not find the code for the selected region; select an area containing text', 'warning');
+        return;
+      }
+      const revised = await provider.reviseCode({
+        code: image.code,
+        instructions: buildRegionInstructions(target, buildUIDescriptionPrompt(regionTree, image.codeFormat)),
+        codeFormat: image.codeFormat,
+      }, { signal: controller.signal, palette: image.palette ?? undefined, brandTheme: brandTheme ?? undefined });
+      const spliced = spliceRegion(image.code, target, revised);
+      if (spliced.trim() === image.code.trim()) {
+        addNotification(`Regenerating the region did not change the code for ${image.file.name}`, 'warning');
+        return;
+      }
+      proposeRevision({
+        imageId: image.id,
+        original: image.code,
+        revised: spliced,
+        title: `Region regeneration for ${image.file.name}`,
+        description: `Replaced the <${target.tagName}> on lines ${target.line}-${target.endLine}; the rest of the file is unchanged.`,
+        providerId,
+        codeFormat: image.codeFormat,
+      }, image.file.name);
+    } catch (error) {
+      if (isAbortError(error)) {
+        addNotification(`Region regeneration cancelled for ${image.file.name}`, 'info');
+      } else {
+        console.error('Error regenerating region:', error);
+        addNotification(`Failed to regenerate the region: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+      }
+    } finally {
+      generationControllers.current.delete(imageId);
       setImages((prev) => prev.map((img) =>
-        img.id === image.id ? { ...img, isGenerating: false } : img
+        img.id === imageId ? { ...img, isGenerating: false } : img
       ));
-      addNotification(`Failed to generate code for ${image.file.name}`, 'error');
     }
-  }, [images, userPrompt, deviceType, codeFormat, addNotification]);
+  }, [images, providerId, brandTheme, proposeRevision, addNotification]);
 
   const generateAllCodes = useCallback(async () => {
     const validImages = images.filter((img) => img.description);
@@ -197,40 +810,114 @@ function App() {
       addNotification('No images with descriptions found', 'warning');
       return;
     }
+    const batchController = new AbortController();
+    generateAllController.current = batchController;
     setIsGeneratingAll(true);
     setGlobalProgress(0);
-    setImages((prev) => prev.map((img) => ({ ...img, code: '', isGenerating: true })));
+    // Existing code stays visible, and restorable from history, until each image's new code arrives
+    setImages((prev) => prev.map((img) => ({ ...img, isGenerating: true })));
     for (let i = 0; i < validImages.length; i++) {
       const image = validImages[i];
+      if (batchController.signal.aborted) {
+        break;
+      }
+      if (skippedBatchImages.current.has(image.id)) {
+        continue;
+      }
+      const controller = new AbortController();
+      const abortImage = () => controller.abort();
+      batchController.signal.addEventListener('abort', abortImage);
+      generationControllers.current.set(image.id, controller);
       try {
-        const code = await enhancedAzureOpenAIService.generateReactCode(
-          image.description,
+        setImages((prev) => prev.map((img) =>
+          img.id === image.id ? { ...img, codeFormat, isStreaming: true } : img
+        ));
+        const code = await providerRegistry.get(providerId).generateReactCode(
+          buildGenerationDescription(image, codeFormat),
           userPrompt,
           deviceType,
-          codeFormat
+          codeFormat,
+          {
+            signal: controller.signal,
+            onToken: (partialCode) => handleCodeChange(image.id, partialCode),
+            palette: image.palette ?? undefined,
+            tokens: image.tokens ?? undefined,
+            brandTheme: brandTheme ?? undefined,
+          }
         );
         const responsiveIssues = validateResponsiveDesign(code, codeFormat);
         if (responsiveIssues.length > 0) {
           responsiveIssues.forEach((issue) => addNotification(issue, 'warning'));
         }
+        if (brandTheme) {
+          notifyOffBrandValues(image.file.name, validateBrandTokens(code, brandTheme, codeFormat));
+        }
+        const history = recordCodeVersion(image.history, image, {
+          code, source: 'generation', providerId, prompt: userPrompt || undefined, codeFormat,
+        });
         setImages((prev) => prev.map((img) =>
-          img.id === image.id ? { ...img, code, isGenerating: false } : img
+          img.id === image.id
+            ? { ...img, code, history, compileDiagnostics: [], isGenerating: false, isStreaming: false }
+            : img
         ));
         setGlobalProgress(((i + 1) / validImages.length) * 100);
       } catch (error) {
-        console.error('Error generating code:', error);
         setImages((prev) => prev.map((img) =>
-          img.id === image.id ? { ...img, isGenerating: false } : img
+          img.id === image.id ? { ...img, code: image.code, codeFormat: image.codeFormat, isGenerating: false, isStreaming: false } : img
         ));
-        addNotification(`Failed to generate code for ${image.file.name}`, 'error');
+        if (!isAbortError(error)) {
+          console.error('Error generating code:', error);
+          addNotification(`Failed to generate code for ${image.file.name}`, 'error');
+        } else if (!batchController.signal.aborted) {
+          addNotification(`Code generation cancelled for ${image.file.name}`, 'info');
+        }
+      } finally {
+        batchController.signal.removeEventListener('abort', abortImage);
+        generationControllers.current.delete(image.id);
       }
     }
+    generateAllController.current = null;
+    skippedBatchImages.current.clear();
+    // Every image is released from the batch, and stopped ones get their previous code back
+    const originals = new Map(images.map((img) => [img.id, img]));
+    setImages((prev) => prev.map((img) =>
+      img.isGenerating && !generationControllers.current.has(img.id)
+        ? {
+          ...img,
+          code: originals.get(img.id)?.code ?? img.code,
+          codeFormat: originals.get(img.id)?.codeFormat ?? img.codeFormat,
+          isGenerating: false,
+          isStreaming: false,
+        }
+        : img
+    ));
     setIsGeneratingAll(false);
-    addNotification('All codes generated successfully!', 'success');
-  }, [images, userPrompt, deviceType, codeFormat, addNotification]);
+    if (batchController.signal.aborted) {
+      addNotification('Code generation stopped', 'info');
+    } else {
+      addNotification('All codes generated successfully!', 'success');
+    }
+  }, [images, handleCodeChange, userPrompt, deviceType, codeFormat, providerId, brandTheme, notifyOffBrandValues, addNotification]);
+
+  const cancelGeneration = useCallback((imageId: string) => {
+    const controller = generationControllers.current.get(imageId);
+    if (controller) {
+      controller.abort();
+    } else if (generateAllController.current) {
+      skippedBatchImages.current.add(imageId);
+    }
+  }, []);
+
+  const stopGenerateAll = useCallback(() => {
+    generateAllController.current?.abort();
+  }, []);
 
   const removeImage = useCallback((imageId: string) => {
+    // Abort in-flight work so its result never lands in state
+    cancelGeneration(imageId);
     setImages((prev) => {
+      const removed = prev.find((img) => img.id === imageId);
+      if (removed) URL.revokeObjectURL(removed.preview);
       const filtered = prev.filter((img) => img.id !== imageId);
       if (selectedImageId === imageId && filtered.length > 0) {
         setSelectedImageId(filtered[0].id);
@@ -239,10 +926,11 @@ function App() {
       }
       return filtered;
     });
+    setScreenFlow((prev) => removeFlowScreen(prev, imageId));
     addNotification('Image removed', 'info');
-  }, [selectedImageId, addNotification]);
+  }, [selectedImageId, cancelGeneration, addNotification]);
 
-  const handlePreviewClick = useCallback(() => {
+  const handlePreviewClick = useCallback(async () => {
     const selectedImage = images.find((img) => img.id === selectedImageId);
     if (!selectedImage?.code) {
       addNotification('No code available for preview', 'warning');
@@ -253,10 +941,200 @@ function App() {
       addNotification(validation.message, 'error');
       return;
     }
-    setIsPreviewOpen(true);
+    setIsCompiling(true);
+    try {
+      const { code, diagnostics } = await compileComponent(selectedImage.code, codeFormat);
+      // Attach results only if the code wasn't edited while compiling
+      setImages((prev) => prev.map((img) =>
+        img.id === selectedImage.id && img.code === selectedImage.code ? { ...img, compileDiagnostics: diagnostics } : img
+      ));
+      if (code === null) {
+        const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+        addNotification(`Preview blocked: ${errorCount} compile error${errorCount === 1 ? '' : 's'} in the editor`, 'error');
+        return;
+      }
+      setIsPreviewOpen(true);
+    } catch (error) {
+      // The compiler is an optional safety net; fall back to the remote preview if it cannot load
+      console.error('Error compiling code for preview:', error);
+      addNotification('Could not type-check the code; opening preview without it', 'warning');
+      setIsPreviewOpen(true);
+    } finally {
+      setIsCompiling(false);
+    }
   }, [images, selectedImageId, codeFormat, addNotification]);
 
+  const repairRuntimeError = useCallback(async (runtimeError: string) => {
+    const image = images.find((img) => img.id === selectedImageId);
+    // Repairs are written in the format the previewed code is in, not the selector's
+    if (!image?.code || !image.codeFormat || repairController.current) return;
+    const controller = new AbortController();
+    repairController.current = controller;
+    setIsRepairing(true);
+    try {
+      const revised = await providerRegistry.get(providerId).reviseCode({
+        code: image.code,
+        instructions: buildRuntimeRepairInstructions(runtimeError, image.codeFormat),
+        codeFormat: image.codeFormat,
+      }, { signal: controller.signal, brandTheme: brandTheme ?? undefined });
+      if (revised.trim() === image.code.trim()) {
+        addNotification(`The repair for ${image.file.name} did not change the code`, 'warning');
+        return;
+      }
+      proposeRevision({
+        imageId: image.id,
+        original: image.code,
+        revised,
+        title: `Repair for ${image.file.name}`,
+        description: runtimeError,
+        providerId,
+        codeFormat: image.codeFormat,
+      }, image.file.name);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Error repairing code:', error);
+        addNotification(`Failed to repair code for ${image.file.name}`, 'error');
+      }
+    } finally {
+      repairController.current = null;
+      setIsRepairing(false);
+    }
+  }, [images, selectedImageId, providerId, brandTheme, proposeRevision, addNotification]);
+
+  const handleRuntimeError = useCallback((runtimeError: string) => {
+    if (pendingRevision || repairController.current) return;
+    const attempts = repairAttempts.current.get(selectedImageId) ?? 0;
+    if (attempts >= MAX_AUTO_REPAIRS) return;
+    repairAttempts.current.set(selectedImageId, attempts + 1);
+    repairRuntimeError(runtimeError);
+  }, [pendingRevision, selectedImageId, repairRuntimeError]);
+
+  const updateChatTurn = useCallback((imageId: string, turnId: string, changes: Partial<ChatTurn>) => {
+    setImages((prev) => prev.map((img) =>
+      img.id === imageId
+        ? { ...img, chat: img.chat.map((turn) => (turn.id === turnId ? { ...turn, ...changes } : turn)) }
+        : img
+    ));
+  }, []);
+
+  // Each turn revises the current code; accepted turns are sent as history with later ones
+  const sendChatMessage = useCallback(async (imageId: string, instruction: string) => {
+    const image = images.find((img) => img.id === imageId);
+    if (!image?.code) return;
+    // The revision must be written, and validated, in the format the current code is in
+    if (!image.codeFormat) {
+      addNotification(`Generate code for ${image.file.name} before editing it in chat`, 'warning');
+      return;
+    }
+    const turn: ChatTurn = { id: Date.now().toString(), instruction, status: 'pending', createdAt: Date.now() };
+    const controller = new AbortController();
+    generationControllers.current.set(imageId, controller);
+    setImages((prev) => prev.map((img) =>
+      img.id === imageId ? { ...img, chat: [...img.chat, turn], isGenerating: true } : img
+    ));
+    try {
+      const revised = await providerRegistry.get(providerId).reviseCode({
+        code: image.code,
+        instructions: instruction,
+        codeFormat: image.codeFormat,
+        history: image.chat.filter((previous) => previous.status === 'applied').map((previous) => previous.instruction),
+      }, { signal: controller.signal, palette: image.palette ?? undefined, brandTheme: brandTheme ?? undefined });
+      if (revised.trim() === image.code.trim()) {
+        updateChatTurn(imageId, turn.id, { status: 'failed', note: 'the model returned the same code' });
+        return;
+      }
+      updateChatTurn(imageId, turn.id, { status: 'review' });
+      proposeRevision({
+        imageId,
+        original: image.code,
+        revised,
+        title: `Chat edit for ${image.file.name}`,
+        description: instruction,
+        providerId,
+        codeFormat: image.codeFormat,
+        chatTurnId: turn.id,
+      }, image.file.name);
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateChatTurn(imageId, turn.id, { status: 'failed', note: 'cancelled' });
+      } else {
+        console.error('Error revising code from chat:', error);
+        updateChatTurn(imageId, turn.id, { status: 'failed', note: 'request failed' });
+        addNotification(`Failed to revise code for ${image.file.name}`, 'error');
+      }
+    } finally {
+      generationControllers.current.delete(imageId);
+      setImages((prev) => prev.map((img) =>
+        img.id === imageId ? { ...img, isGenerating: false } : img
+      ));
+    }
+  }, [images, providerId, brandTheme, updateChatTurn, proposeRevision, addNotification]);
+
+  const acceptRevision = useCallback(() => {
+    if (!pendingRevision) return;
+    const { imageId, chatTurnId } = pendingRevision;
+    const image = images.find((img) => img.id === imageId);
+    if (image?.code !== pendingRevision.original) {
+      addNotification('The code changed while the revision was pending; it was not applied', 'warning');
+      if (chatTurnId) updateChatTurn(imageId, chatTurnId, { status: 'failed', note: 'the code changed during review' });
+    } else {
+      const history = recordCodeVersion(image.history, image, {
+        code: pendingRevision.revised,
+        source: 'revision',
+        providerId: pendingRevision.providerId,
+        prompt: pendingRevision.description,
+        codeFormat: pendingRevision.codeFormat,
+      });
+      setImages((prev) => prev.map((img) =>
+        img.id === imageId
+          ? { ...img, code: pendingRevision.revised, codeFormat: pendingRevision.codeFormat, history, compileDiagnostics: [] }
+          : img
+      ));
+      if (chatTurnId) updateChatTurn(imageId, chatTurnId, { status: 'applied' });
+      addNotification(`${pendingRevision.title} applied`, 'success');
+    }
+    setPendingRevision(null);
+  }, [pendingRevision, images, updateChatTurn, addNotification]);
+
+  const rejectRevision = useCallback(() => {
+    if (pendingRevision?.chatTurnId) {
+      updateChatTurn(pendingRevision.imageId, pendingRevision.chatTurnId, { status: 'rejected' });
+    }
+    setPendingRevision(null);
+  }, [pendingRevision, updateChatTurn]);
+
+  const restoreCodeVersion = useCallback((imageId: string, versionId: string) => {
+    setImages((prev) => prev.map((img) => {
+      const version = img.history.find((entry) => entry.id === versionId);
+      if (img.id !== imageId || !version) return img;
+      const history = recordCodeVersion(img.history, img, {
+        code: version.code,
+        source: 'restore',
+        providerId: version.providerId,
+        prompt: `Version from ${new Date(version.createdAt).toLocaleTimeString()}`,
+        codeFormat: version.codeFormat,
+      });
+      return { ...img, code: version.code, codeFormat: version.codeFormat, history, compileDiagnostics: [] };
+    }));
+    addNotification('Code version restored', 'success');
+  }, [addNotification]);
+
+  const closePreview = useCallback(() => {
+    repairController.current?.abort();
+    repairAttempts.current.clear();
+    setIsPreviewOpen(false);
+  }, []);
+
   const selectedImage = images.find((img) => img.id === selectedImageId);
+  const selectedPalette = selectedImage?.palette ?? null;
+  const selectedTokens = selectedImage?.tokens ?? null;
+  // Memoized so the preview only re-renders its theme when it actually changes
+  const previewTheme = useMemo(
+    () => resolveTheme(brandTheme, { palette: selectedPalette, tokens: selectedTokens }),
+    [brandTheme, selectedPalette, selectedTokens]
+  );
+  // What Reset in the token editor returns to
+  const detectedTokens = selectedImage?.uiTree ? extractDesignTokens(selectedImage.analysis, selectedImage.uiTree) : null;
   const hasImages = images.length > 0;
   const hasDescriptions = images.some((img) => img.description);
   const hasCodes = images.some((img) => img.code);
@@ -276,6 +1154,19 @@ function App() {
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <ProjectManager
+                projects={projects}
+                currentProjectId={project?.id ?? null}
+                currentProjectName={project?.name ?? 'Untitled project'}
+                saveState={saveState}
+                onOpen={openProject}
+                onCreate={createProject}
+                onRename={renameProject}
+                onDuplicate={duplicateProject}
+                onDelete={deleteProject}
+                onExport={exportProject}
+                onImport={importProject}
+              />
               <button className="p-2 text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors">
                 <Github className="h-5 w-5" />
               </button>
@@ -330,9 +1221,61 @@ function App() {
                       imageId={selectedImage.id}
                       description={selectedImage.description}
                       onChange={handleDescriptionChange}
+                      tree={selectedImage.uiTree}
+                      onTreeChange={handleTreeChange}
+                      isEdited={selectedImage.isDescriptionEdited}
+                      onReset={resetDescription}
                       isGenerating={selectedImage.isGenerating}
+                      analysisProgress={selectedImage.analysisProgress}
+                    />
+                  )}
+                  {selectedImage?.uiTree && !selectedImage.isGenerating && (
+                    <ComponentTreeEditor
+                      key={selectedImage.id}
+                      imageId={selectedImage.id}
+                      imageUrl={selectedImage.preview}
+                      tree={selectedImage.uiTree}
+                      detectedElements={selectedImage.analysis?.elements}
+                      onTreeChange={handleTreeChange}
+                      onRegionRegenerate={selectedImage.code && !isGeneratingAll ? regenerateRegion : undefined}
+                    />
+                  )}
+                  {selectedImage && (
+                    <PaletteEditor
+                      imageId={selectedImage.id}
+                      palette={selectedImage.palette}
+                      detectedPalette={selectedImage.analysis?.palette ?? null}
+                      onChange={handlePaletteChange}
+                      isExtracting={selectedImage.analysisProgress !== null}
+                    />
+                  )}
+                  {selectedImage && (
+                    <DesignTokenEditor
+                      imageId={selectedImage.id}
+                      tokens={selectedImage.tokens}
+                      detectedTokens={detectedTokens}
+                      palette={selectedImage.palette}
+                      codeFormat={codeFormat}
+                      onChange={handleTokensChange}
+                    />
+                  )}
+                  {images.length >= 2 && (
+                    <ScreenFlowEditor
+                      images={images}
+                      flow={screenFlow}
+                      onChange={setScreenFlow}
+                      onGenerateApp={generateRoutedApp}
+                      onStop={stopRoutedApp}
+                      status={appBuildStatus}
+                      disabled={isGeneratingAll}
                     />
                   )}
+                  <BrandThemePanel
+                    brandTheme={brandTheme}
+                    onImport={importBrandTheme}
+                    onRemove={() => setBrandTheme(null)}
+                    disabled={isGeneratingAll}
+                  />
                   <PromptBox
                     prompt={userPrompt}
                     onChange={setUserPrompt}
@@ -343,6 +1286,14 @@ function App() {
                     viewportWidth={viewportWidth}
                     onViewportWidthChange={setViewportWidth}
                   />
+                  <ProviderSettings
+                    providers={providerRegistry.list()}
+                    providerId={providerId}
+                    onProviderChange={setProviderId}
+                    connection={providerId === openAICompatibleService.id ? openAICompatibleConfig : undefined}
+                    onConnectionChange={setOpenAICompatibleConfig}
+                    disabled={isGeneratingAll}
+                  />
                 </div>
               </div>
             </div>
@@ -361,32 +1312,55 @@ function App() {
                     onImageSelect={setSelectedImageId}
                     onCodeChange={handleCodeChange}
                     onGenerateCode={generateCodeForImage}
+                    onCancelGeneration={cancelGeneration}
+                    onRestoreVersion={restoreCodeVersion}
+                    onExportProject={exportScaffold}
+                    onExtractComponents={openSharedComponents}
                     onGenerateAll={generateAllCodes}
+                    onStopGenerateAll={stopGenerateAll}
                     isGeneratingAll={isGeneratingAll}
+                    codeFormat={codeFormat}
+                    brandTheme={brandTheme}
                   />
                 </div>
               </div>
+              {selectedImage && (
+                <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+                  <RefinementChat
+                    imageId={selectedImage.id}
+                    turns={selectedImage.chat}
+                    onSend={sendChatMessage}
+                    disabled={!selectedImage.code || selectedImage.isGenerating || isGeneratingAll || !!pendingRevision}
+                  />
+                </div>
+              )}
               <div className="flex flex-wrap gap-3">
                 <button
                   onClick={handlePreviewClick}
-                  disabled={!selectedImage?.code || isGeneratingAll}
+                  disabled={!selectedImage?.code || isGeneratingAll || isCompiling}
                   className="flex-1 min-w-[140px] bg-gradient-to-r from-green-500 to-green-600 text-white px-4 py-2 rounded-lg font-medium hover:from-green-600 hover:to-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center"
                 >
                   <Eye className="h-4 w-4 mr-2" />
-                  Live Preview
+                  {isCompiling ? 'Compiling...' : 'Live Preview'}
                 </button>
-                <button
-                  onClick={generateAllCodes}
-                  disabled={!hasDescriptions || isGeneratingAll}
-                  className="flex-1 min-w-[140px] bg-gradient-to-r from-blue-500 to-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center"
-                >
-                  {isGeneratingAll ? (
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                  ) : (
+                {isGeneratingAll ? (
+                  <button
+                    onClick={stopGenerateAll}
+                    className="flex-1 min-w-[140px] bg-gradient-to-r from-red-500 to-red-600 text-white px-4 py-2 rounded-lg font-medium hover:from-red-600 hover:to-red-700 transition-all duration-200 flex items-center justify-center"
+                  >
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    onClick={generateAllCodes}
+                    disabled={!hasDescriptions}
+                    className="flex-1 min-w-[140px] bg-gradient-to-r from-blue-500 to-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center"
+                  >
                     <Play className="h-4 w-4 mr-2" />
-                  )}
-                  Generate All
-                </button>
+                    Generate All
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -395,9 +1369,33 @@ function App() {
               code={selectedImage.code}
               deviceType={deviceType}
               codeFormat={codeFormat}
-              onClose={() => setIsPreviewOpen(false)}
+              onClose={closePreview}
               viewportWidth={viewportWidth}
               previewRef={previewRef}
+              onRuntimeError={handleRuntimeError}
+              onRepair={repairRuntimeError}
+              isRepairing={isRepairing}
+              designImageUrl={selectedImage.preview}
+              palette={previewTheme.palette}
+              tokens={previewTheme.tokens}
+            />
+          )}
+          {pendingRevision && (
+            <CodeDiffDialog
+              title={pendingRevision.title}
+              description={pendingRevision.description}
+              original={pendingRevision.original}
+              modified={pendingRevision.revised}
+              language={codeFormat === 'flutter' ? 'dart' : 'javascript'}
+              onAccept={acceptRevision}
+              onReject={rejectRevision}
+            />
+          )}
+          {extractionScreens && (
+            <SharedComponentsDialog
+              screens={extractionScreens}
+              onExport={exportWithSharedComponents}
+              onClose={() => setExtractionScreens(null)}
             />
           )}
         </div>
@@ -0,0 +1,59 @@
+import type { AnalysisEvent, AnalysisProgress, AnalysisRequest, ImageAnalysis } from './protocol';
+
+export interface AnalyzeImageOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Runs OCR, element detection and palette extraction in a dedicated worker that lives for one image
+export const analyzeImage = (image: Blob, options: AnalyzeImageOptions = {}): Promise<ImageAnalysis> =>
+  new Promise((resolve, reject) => {
+    options.signal?.throwIfAborted();
+    const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      options.signal?.removeEventListener('abort', abort);
+      worker.terminate();
+    };
+    // Terminating the worker also stops its nested Tesseract worker mid-recognition
+    const abort = () => {
+      finish();
+      reject(options.signal?.reason ?? new DOMException('Image analysis was aborted', 'AbortError'));
+    };
+    options.signal?.addEventListener('abort', abort);
+
+    worker.addEventListener('message', (event: MessageEvent<AnalysisEvent>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'analysis:progress':
+          options.onProgress?.({ stage: message.stage, progress: message.progress });
+          break;
+        case 'analysis:done':
+          finish();
+          resolve(message.result);
+          break;
+        case 'analysis:error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      finish();
+      reject(new Error(event.message || 'Image analysis worker failed to start'));
+    });
+    const request: AnalysisRequest = { type: 'analysis:start', image };
+    worker.postMessage(request);
+  });
+
+// Cuts a rectangle out of the design so a provider can describe just that part of the screen
+export const cropImage = async (
+  image: File,
+  region: { x: number; y: number; width: number; height: number }
+): Promise<File> => {
+  const bitmap = await createImageBitmap(image, region.x, region.y, region.width, region.height);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return new File([blob], `region-${image.name.replace(/\.\w+$/, '')}.png`, { type: 'image/png' });
+};
@@ -0,0 +1,14 @@
+import type { ImageAnalysis } from './protocol';
+
+// Prompt section with the measured facts about the design, for providers that describe images
+export const buildAnalysisPrompt = (analysis?: ImageAnalysis): string => {
+  if (!analysis) {
+    return 'VISION ANALYSIS DATA:\nUnavailable; rely on the image alone.';
+  }
+  const { swatches, ...roles } = analysis.palette;
+  return `VISION ANALYSIS DATA (measured from the image pixels; coordinates in px of a ${analysis.width}x${analysis.height} image):
+${JSON.stringify(analysis.elements, null, 2)}
+Color Palette: ${JSON.stringify(roles)} (all clusters: ${swatches.map((swatch) => swatch.hex).join(', ')})
+Base Font Size: ${analysis.baseFontSize ? `${analysis.baseFontSize}px` : 'unavailable'}
+Responsive Hints: ${analysis.responsiveHints.join('\n') || 'none'}`;
+};
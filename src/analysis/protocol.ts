@@ -0,0 +1,38 @@
+import type { DetectedElement } from '../services/elementDetection';
+import type { DesignPalette, ElementStyle } from '../services/paletteExtraction';
+
+// Pixel-level facts about a design image, gathered off the main thread before description
+export interface ImageAnalysis {
+  width: number;
+  height: number;
+  elements: Array<DetectedElement & ElementStyle>;
+  palette: DesignPalette;
+  // Median OCR size across the whole design, i.e. the body text size
+  baseFontSize?: number;
+  responsiveHints: string[];
+}
+
+export type AnalysisStage = 'decoding' | 'ocr' | 'detection' | 'palette';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  // Overall progress across all stages (0-1)
+  progress: number;
+}
+
+export interface AnalysisRequest {
+  type: 'analysis:start';
+  image: Blob;
+}
+
+export type AnalysisEvent =
+  | ({ type: 'analysis:progress' } & AnalysisProgress)
+  | { type: 'analysis:done'; result: ImageAnalysis }
+  | { type: 'analysis:error'; message: string };
+
+export const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+  decoding: 'Decoding image',
+  ocr: 'Reading text',
+  detection: 'Detecting elements',
+  palette: 'Sampling colors',
+};
@@ -0,0 +1,97 @@
+/// <reference lib="webworker" />
+import Tesseract from 'tesseract.js';
+import { detectElements, extractWords, type DetectedElement } from '../services/elementDetection';
+import { buildDesignPalette, describeElementStyle, estimateFontSize, extractColors } from '../services/paletteExtraction';
+import type { AnalysisEvent, AnalysisRequest, AnalysisStage, ImageAnalysis } from './protocol';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// Share of the overall progress bar each stage starts at; OCR dominates the runtime
+const STAGE_OFFSETS: Record<AnalysisStage, number> = {
+  decoding: 0,
+  ocr: 0.1,
+  detection: 0.8,
+  palette: 0.95,
+};
+
+const post = (event: AnalysisEvent) => self.postMessage(event);
+
+const report = (stage: AnalysisStage, stageProgress: number = 0) => {
+  const stages = Object.keys(STAGE_OFFSETS) as AnalysisStage[];
+  const next = stages[stages.indexOf(stage) + 1];
+  const end = next ? STAGE_OFFSETS[next] : 1;
+  post({ type: 'analysis:progress', stage, progress: STAGE_OFFSETS[stage] + (end - STAGE_OFFSETS[stage]) * stageProgress });
+};
+
+const buildResponsiveHints = (elements: DetectedElement[], width: number): string[] => {
+  const hints: string[] = [];
+  if (width > 768 && elements.some((e) => e.type === 'sidebar' && e.width > 200)) {
+    hints.push('Sidebar should collapse to a hamburger menu on mobile (width < 768px).');
+  }
+  if (elements.some((e) => e.type === 'navigation' && e.height < 80)) {
+    hints.push('Navigation bar should stack vertically on mobile.');
+  }
+  if (elements.some((e) => e.type === 'button' && e.width < 44)) {
+    hints.push('Buttons should have a minimum touch target size of 44px for mobile.');
+  }
+  return hints;
+};
+
+const recognizeWords = async (image: Blob) => {
+  const worker = await Tesseract.createWorker('eng', Tesseract.OEM.LSTM_ONLY, {
+    logger: (message) => {
+      if (message.status === 'recognizing text') {
+        report('ocr', message.progress);
+      }
+    },
+  });
+  try {
+    const { data } = await worker.recognize(image, {}, { blocks: true });
+    return extractWords(data);
+  } finally {
+    await worker.terminate();
+  }
+};
+
+const analyze = async (image: Blob): Promise<ImageAnalysis> => {
+  report('decoding');
+  const bitmap = await createImageBitmap(image);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('OffscreenCanvas 2D context is not available');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+
+  report('ocr');
+  const words = await recognizeWords(image);
+
+  report('detection');
+  const elements = detectElements(pixels, words).map((element) => ({
+    ...element,
+    ...describeElementStyle(pixels, element, words),
+  }));
+
+  report('palette');
+  const palette = buildDesignPalette(extractColors(pixels));
+
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    elements,
+    palette,
+    baseFontSize: estimateFontSize(words),
+    responsiveHints: buildResponsiveHints(elements, canvas.width),
+  };
+};
+
+self.addEventListener('message', async (event: MessageEvent<AnalysisRequest>) => {
+  if (event.data?.type !== 'analysis:start') return;
+  try {
+    post({ type: 'analysis:done', result: await analyze(event.data.image) });
+  } catch (error) {
+    post({ type: 'analysis:error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,117 @@
+import React, { useRef } from 'react';
+import { Stamp, Upload, X } from 'lucide-react';
+import {
+  BRAND_THEME_FORMAT_LABELS,
+  countBrandTokens,
+  type BrandTheme,
+  type BrandTokenCategory,
+} from '../services/brandTheme';
+
+interface BrandThemePanelProps {
+  brandTheme: BrandTheme | null;
+  onImport: (file: File) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+const COUNT_LABELS: Record<BrandTokenCategory, string> = {
+  color: 'colors',
+  fontSize: 'font sizes',
+  fontFamily: 'fonts',
+  fontWeight: 'weights',
+  spacing: 'spacing',
+  radius: 'radii',
+  shadow: 'shadows',
+};
+
+const MAX_SWATCHES = 24;
+
+const BrandThemePanel: React.FC<BrandThemePanelProps> = ({
+  brandTheme,
+  onImport,
+  onRemove,
+  disabled = false
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const counts = brandTheme ? countBrandTokens(brandTheme) : {};
+  const colors = brandTheme?.tokens.filter((token) => token.category === 'color') ?? [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-slate-900 flex items-center">
+          <Stamp className="h-4 w-4 mr-2" />
+          Brand Theme
+        </label>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="flex items-center text-xs text-slate-600 hover:text-slate-900 disabled:opacity-50 transition-colors"
+          title="W3C design tokens or Style Dictionary JSON, or an MUI theme (.json, .js, .ts)"
+        >
+          <Upload className="h-3 w-3 mr-1" />
+          {brandTheme ? 'Replace' : 'Import'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.js,.ts,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+      </div>
+
+      {brandTheme ? (
+        <div className="p-3 border border-slate-200 rounded-lg space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-mono text-slate-800 truncate">{brandTheme.fileName}</p>
+              <p className="text-xs text-slate-500">{BRAND_THEME_FORMAT_LABELS[brandTheme.format]}</p>
+            </div>
+            <button
+              onClick={onRemove}
+              disabled={disabled}
+              className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-50 rounded transition-colors"
+              title="Remove brand theme"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {colors.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {colors.slice(0, MAX_SWATCHES).map((token) => (
+                <span
+                  key={token.path}
+                  className="h-5 w-5 rounded border border-slate-200"
+                  style={{ backgroundColor: token.value }}
+                  title={`${token.path}: ${token.value}`}
+                />
+              ))}
+              {colors.length > MAX_SWATCHES && (
+                <span className="text-xs text-slate-500 self-center">+{colors.length - MAX_SWATCHES}</span>
+              )}
+            </div>
+          )}
+          <p className="text-xs text-slate-600">
+            {(Object.keys(COUNT_LABELS) as BrandTokenCategory[])
+              .filter((category) => counts[category])
+              .map((category) => `${counts[category]} ${COUNT_LABELS[category]}`)
+              .join(' · ')}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">No brand theme; colors and sizes come from each design</p>
+      )}
+
+      <p className="text-xs text-slate-500">
+        Brand tokens replace the detected palette and tokens in generation, revisions, the preview and exports, and other colors or font sizes are flagged in the editor
+      </p>
+    </div>
+  );
+};
+
+export default BrandThemePanel;
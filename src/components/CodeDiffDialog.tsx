@@ -0,0 +1,84 @@
+import React from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { Check, GitCompare, X } from 'lucide-react';
+
+interface CodeDiffDialogProps {
+  title: string;
+  description?: string;
+  original: string;
+  modified: string;
+  language: string;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const CodeDiffDialog: React.FC<CodeDiffDialogProps> = ({
+  title,
+  description,
+  original,
+  modified,
+  language,
+  onAccept,
+  onReject
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl flex flex-col max-h-full">
+        <div className="bg-gradient-to-r from-purple-500 to-purple-600 px-6 py-4 rounded-t-xl flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <GitCompare className="h-5 w-5 mr-2" />
+            {title}
+          </h3>
+          <button
+            onClick={onReject}
+            className="p-1 rounded text-white hover:bg-purple-700 transition-colors"
+            title="Reject changes"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        {description && (
+          <p className="px-6 pt-4 text-sm text-slate-600 whitespace-pre-wrap">{description}</p>
+        )}
+        <div className="p-6">
+          <div className="border border-slate-300 rounded-lg overflow-hidden">
+            <DiffEditor
+              height="60vh"
+              language={language}
+              original={original}
+              modified={modified}
+              theme="vs-light"
+              options={{
+                readOnly: true,
+                renderSideBySide: true,
+                minimap: { enabled: false },
+                fontSize: 13,
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+                wordWrap: 'on',
+              }}
+            />
+          </div>
+        </div>
+        <div className="px-6 pb-6 flex justify-end gap-3">
+          <button
+            onClick={onReject}
+            className="px-4 py-2 rounded-lg font-medium border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors flex items-center"
+          >
+            <X className="h-4 w-4 mr-2" />
+            Reject
+          </button>
+          <button
+            onClick={onAccept}
+            className="bg-gradient-to-r from-green-500 to-green-600 text-white px-4 py-2 rounded-lg font-medium hover:from-green-600 hover:to-green-700 transition-all duration-200 flex items-center"
+          >
+            <Check className="h-4 w-4 mr-2" />
+            Accept
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CodeDiffDialog;
@@ -1,6 +1,14 @@
-import React, { useEffect } from 'react';
-import Editor from '@monaco-editor/react';
-import { Code, Play, RefreshCw, Download, Copy, Check } from 'lucide-react';
+import React, { useEffect, useMemo, useRef } from 'react';
+import Editor, { type OnMount } from '@monaco-editor/react';
+import { Code, Play, RefreshCw, Download, Copy, Check, Square, AlertCircle, AlertTriangle, History, Package, Boxes } from 'lucide-react';
+import { validateBrandTokens, type BrandTheme } from '../services/brandTheme';
+import type { CodeFormat } from '../services/codeGenerationProvider';
+import { validateCode, type CodeDiagnostic } from '../services/codeValidation';
+import type { CodeVersion } from '../services/codeHistory';
+import CodeHistoryPanel from './CodeHistoryPanel';
+
+type MonacoEditor = Parameters<OnMount>[0];
+type Monaco = Parameters<OnMount>[1];
 
 interface ImageData {
   id: string;
@@ -9,6 +17,9 @@ interface ImageData {
   description: string;
   code: string;
   isGenerating: boolean;
+  isStreaming: boolean;
+  compileDiagnostics: CodeDiagnostic[];
+  history: CodeVersion[];
 }
 
 interface CodeEditorProps {
@@ -17,8 +28,18 @@ interface CodeEditorProps {
   onImageSelect: (id: string) => void;
   onCodeChange: (imageId: string, code: string) => void;
   onGenerateCode: (imageId: string) => void;
+  onCancelGeneration: (imageId: string) => void;
+  onRestoreVersion: (imageId: string, versionId: string) => void;
+  // Downloads a runnable app with every screen's code for the current format
+  onExportProject: () => void;
+  // Opens the review of JSX repeated across screens; React formats only
+  onExtractComponents: () => void;
   onGenerateAll: () => void;
+  onStopGenerateAll: () => void;
   isGeneratingAll: boolean;
+  codeFormat: CodeFormat;
+  // Colors and font sizes outside the project's brand theme are marked as warnings
+  brandTheme: BrandTheme | null;
 }
 
 const CodeEditor: React.FC<CodeEditorProps> = ({
@@ -27,19 +48,80 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   onImageSelect,
   onCodeChange,
   onGenerateCode,
+  onCancelGeneration,
+  onRestoreVersion,
+  onExportProject,
+  onExtractComponents,
   onGenerateAll,
-  isGeneratingAll
+  onStopGenerateAll,
+  isGeneratingAll,
+  codeFormat,
+  brandTheme
 }) => {
   const [copied, setCopied] = React.useState(false);
   const [editorKey, setEditorKey] = React.useState(0);
+  const [showHistory, setShowHistory] = React.useState(false);
+  const editorRef = useRef<MonacoEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
   
   const selectedImage = images.find(img => img.id === selectedImageId);
   const hasValidImages = images.some(img => img.description);
 
-  // Force editor re-render when code changes to ensure real-time sync
+  // Partial streamed output is only validated once the stream completes
+  const diagnostics = useMemo<CodeDiagnostic[]>(() => {
+    if (!selectedImage?.code || selectedImage.isStreaming) return [];
+    return [
+      ...validateCode(selectedImage.code, codeFormat).diagnostics,
+      ...selectedImage.compileDiagnostics,
+      ...(brandTheme ? validateBrandTokens(selectedImage.code, brandTheme, codeFormat) : []),
+    ];
+  }, [selectedImage?.code, selectedImage?.isStreaming, selectedImage?.compileDiagnostics, codeFormat, brandTheme]);
+
+  const applyMarkers = React.useCallback(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    };
+    monaco.editor.setModelMarkers(model, 'validation', diagnostics.map((d) => ({
+      severity: severities[d.severity],
+      message: d.message,
+      code: d.rule,
+      startLineNumber: d.line,
+      startColumn: d.column,
+      endLineNumber: d.endLine,
+      endColumn: Math.max(d.endColumn, d.column + 1),
+    })));
+  }, [diagnostics]);
+
   useEffect(() => {
-    setEditorKey(prev => prev + 1);
-  }, [selectedImage?.code]);
+    applyMarkers();
+  }, [applyMarkers, editorKey]);
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    applyMarkers();
+  };
+
+  const revealDiagnostic = (diagnostic: CodeDiagnostic) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.revealLineInCenter(diagnostic.line);
+    editor.setPosition({ lineNumber: diagnostic.line, column: diagnostic.column });
+    editor.focus();
+  };
+
+  // Force editor re-render when code changes to ensure real-time sync.
+  // Streamed chunks are applied in place so the editor isn't remounted per token.
+  useEffect(() => {
+    if (!selectedImage?.isStreaming) {
+      setEditorKey(prev => prev + 1);
+    }
+  }, [selectedImage?.code, selectedImage?.isStreaming]);
 
   const handleCopyCode = async () => {
     if (selectedImage?.code) {
@@ -107,20 +189,21 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
           </label>
           <div className="flex flex-wrap gap-2">
             <button
-              onClick={onGenerateAll}
-              disabled={!hasValidImages || isGeneratingAll}
+              onClick={isGeneratingAll ? onStopGenerateAll : onGenerateAll}
+              disabled={!hasValidImages && !isGeneratingAll}
               className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
                 isGeneratingAll
-                  ? 'bg-blue-100 text-blue-700 border border-blue-300'
+                  ? 'bg-red-100 text-red-700 border border-red-300 hover:bg-red-200'
                   : 'bg-gradient-to-r from-blue-500 to-blue-600 text-white hover:from-blue-600 hover:to-blue-700'
               } disabled:opacity-50 disabled:cursor-not-allowed flex items-center`}
+              title={isGeneratingAll ? 'Stop generating all images' : 'Generate code for all images'}
             >
               {isGeneratingAll ? (
-                <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+                <Square className="h-3 w-3 mr-1" />
               ) : (
                 <Play className="h-3 w-3 mr-1" />
               )}
-              ALL
+              {isGeneratingAll ? 'STOP' : 'ALL'}
             </button>
             
             {images.map((image, index) => (
@@ -155,9 +238,17 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
               {selectedImage.isGenerating && (
                 <div className="flex items-center text-sm text-blue-600">
                   <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
-                  Generating...
+                  {selectedImage.isStreaming ? 'Streaming...' : 'Generating...'}
                 </div>
               )}
+              {selectedImage.isStreaming && (
+                <span
+                  className="px-2 py-1 bg-amber-100 text-amber-700 text-xs rounded-full"
+                  title="Partial output; cleanup and validation run when the stream finishes"
+                >
+                  Not yet validated
+                </span>
+              )}
               
               {/* Language Badge */}
               <span className="px-2 py-1 bg-slate-100 text-slate-600 text-xs rounded-full">
@@ -166,20 +257,38 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
             </div>
             
             <div className="flex items-center space-x-2">
-              <button
-                onClick={() => onGenerateCode(selectedImage.id)}
-                disabled={!selectedImage.description || selectedImage.isGenerating}
-                className="px-3 py-1.5 bg-green-500 text-white rounded-lg text-sm font-medium hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
-              >
-                {selectedImage.isGenerating ? (
-                  <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
-                ) : (
+              {selectedImage.isGenerating ? (
+                <button
+                  onClick={() => onCancelGeneration(selectedImage.id)}
+                  className="px-3 py-1.5 bg-red-500 text-white rounded-lg text-sm font-medium hover:bg-red-600 transition-colors flex items-center"
+                >
+                  <Square className="h-3 w-3 mr-1" />
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={() => onGenerateCode(selectedImage.id)}
+                  disabled={!selectedImage.description}
+                  className="px-3 py-1.5 bg-green-500 text-white rounded-lg text-sm font-medium hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+                >
                   <Play className="h-3 w-3 mr-1" />
-                )}
-                Generate
-              </button>
+                  Generate
+                </button>
+              )}
               
-              {selectedImage.code && (
+              {selectedImage.history.length > 0 && (
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className={`p-1.5 rounded transition-colors ${
+                    showHistory ? 'bg-slate-900 text-white' : 'text-slate-600 hover:text-slate-900 hover:bg-slate-100'
+                  }`}
+                  title="Version history"
+                >
+                  <History className="h-4 w-4" />
+                </button>
+              )}
+
+              {selectedImage.code && !selectedImage.isStreaming && (
                 <>
                   <button
                     onClick={handleCopyCode}
@@ -196,41 +305,98 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                   >
                     <Download className="h-4 w-4" />
                   </button>
+
+                  <button
+                    onClick={onExportProject}
+                    disabled={isGeneratingAll}
+                    className="p-1.5 text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Export as project"
+                  >
+                    <Package className="h-4 w-4" />
+                  </button>
+
+                  {codeFormat !== 'flutter' && (
+                    <button
+                      onClick={onExtractComponents}
+                      disabled={isGeneratingAll}
+                      className="p-1.5 text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Extract shared components"
+                    >
+                      <Boxes className="h-4 w-4" />
+                    </button>
+                  )}
                 </>
               )}
             </div>
           </div>
           
-          <div className="border border-slate-300 rounded-lg overflow-hidden">
-            <Editor
-              key={editorKey}
-              height="400px"
-              defaultLanguage={getEditorLanguage()}
+          {showHistory && selectedImage.history.length > 0 ? (
+            <CodeHistoryPanel
+              key={selectedImage.id}
+              versions={selectedImage.history}
+              currentCode={selectedImage.code}
               language={getEditorLanguage()}
-              value={selectedImage.code || '// Generated code will appear here...'}
-              onChange={handleEditorChange}
-              theme="vs-light"
-              options={{
-                minimap: { enabled: false },
-                fontSize: 14,
-                lineNumbers: 'on',
-                roundedSelection: false,
-                scrollBeyondLastLine: false,
-                automaticLayout: true,
-                tabSize: 2,
-                wordWrap: 'on',
-                formatOnPaste: true,
-                formatOnType: true,
-                autoIndent: 'full',
-                bracketPairColorization: { enabled: true },
-                suggest: {
-                  showKeywords: true,
-                  showSnippets: true
-                }
-              }}
+              onRestore={(versionId) => onRestoreVersion(selectedImage.id, versionId)}
+              onClose={() => setShowHistory(false)}
+              disabled={selectedImage.isGenerating}
             />
-          </div>
+          ) : (
+            <div className="border border-slate-300 rounded-lg overflow-hidden">
+              <Editor
+                key={editorKey}
+                height="400px"
+                defaultLanguage={getEditorLanguage()}
+                language={getEditorLanguage()}
+                value={selectedImage.code || '// Generated code will appear here...'}
+                onChange={handleEditorChange}
+                onMount={handleEditorMount}
+                theme="vs-light"
+                options={{
+                  minimap: { enabled: false },
+                  fontSize: 14,
+                  lineNumbers: 'on',
+                  roundedSelection: false,
+                  scrollBeyondLastLine: false,
+                  automaticLayout: true,
+                  readOnly: selectedImage.isStreaming,
+                  tabSize: 2,
+                  wordWrap: 'on',
+                  formatOnPaste: true,
+                  formatOnType: true,
+                  autoIndent: 'full',
+                  bracketPairColorization: { enabled: true },
+                  suggest: {
+                    showKeywords: true,
+                    showSnippets: true
+                  }
+                }}
+              />
+            </div>
+          )}
           
+          {diagnostics.length > 0 && (
+            <ul className="max-h-32 overflow-auto border border-slate-200 rounded-lg divide-y divide-slate-100 text-xs">
+              {diagnostics.map((diagnostic, index) => (
+                <li key={`${diagnostic.rule}-${diagnostic.line}-${diagnostic.column}-${index}`}>
+                  <button
+                    onClick={() => revealDiagnostic(diagnostic)}
+                    className="w-full px-3 py-1.5 flex items-center text-left hover:bg-slate-50"
+                  >
+                    {diagnostic.severity === 'error' ? (
+                      <AlertCircle className="h-3 w-3 mr-2 text-red-500 flex-shrink-0" />
+                    ) : (
+                      <AlertTriangle className="h-3 w-3 mr-2 text-amber-500 flex-shrink-0" />
+                    )}
+                    <span className="flex-1 text-slate-700">{diagnostic.message}</span>
+                    <span className="ml-2 text-slate-400">
+                      {diagnostic.line}:{diagnostic.column}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
           {!selectedImage.description && (
             <div className="text-center py-8 text-slate-500">
               <Code className="h-12 w-12 mx-auto mb-3 opacity-50" />
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { CODE_VERSION_LABELS, type CodeVersion } from '../services/codeHistory';
+
+interface CodeHistoryPanelProps {
+  versions: CodeVersion[];
+  currentCode: string;
+  language: string;
+  onRestore: (versionId: string) => void;
+  onClose: () => void;
+  // Restoring is blocked while new code is being written
+  disabled: boolean;
+}
+
+const CodeHistoryPanel: React.FC<CodeHistoryPanelProps> = ({
+  versions,
+  currentCode,
+  language,
+  onRestore,
+  onClose,
+  disabled
+}) => {
+  const newestFirst = [...versions].reverse();
+  const [selectedId, setSelectedId] = useState(newestFirst[0]?.id);
+  const selected = versions.find((version) => version.id === selectedId) ?? newestFirst[0];
+
+  return (
+    <div className="border border-slate-300 rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 bg-slate-50 border-b border-slate-200">
+        <span className="text-sm font-medium text-slate-900 flex items-center">
+          <History className="h-4 w-4 mr-2" />
+          Version History ({versions.length})
+        </span>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded transition-colors"
+          title="Back to the editor"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="flex h-[400px]">
+        <ul className="w-48 flex-shrink-0 overflow-y-auto border-r border-slate-200 divide-y divide-slate-100 text-xs">
+          {newestFirst.map((version) => (
+            <li key={version.id}>
+              <button
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left px-3 py-2 transition-colors ${
+                  version.id === selected?.id ? 'bg-blue-50' : 'hover:bg-slate-50'
+                }`}
+              >
+                <span className="block font-medium text-slate-800">{CODE_VERSION_LABELS[version.source]}</span>
+                <span className="block text-slate-500">
+                  {new Date(version.createdAt).toLocaleTimeString()} · {version.codeFormat}
+                </span>
+                {version.providerId && <span className="block text-slate-500">{version.providerId}</span>}
+                {version.prompt && (
+                  <span className="block text-slate-400 truncate" title={version.prompt}>{version.prompt}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex-1 flex flex-col min-w-0">
+          {selected && (
+            <>
+              <div className="flex items-center justify-between px-3 py-1.5 text-xs text-slate-500 border-b border-slate-200">
+                <span>Left: selected version · Right: current code</span>
+                <button
+                  onClick={() => onRestore(selected.id)}
+                  disabled={disabled || selected.code === currentCode}
+                  className="flex items-center px-2 py-1 rounded bg-blue-500 text-white font-medium hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Restore
+                </button>
+              </div>
+              <div className="flex-1 min-h-0">
+                <DiffEditor
+                  height="100%"
+                  language={language}
+                  original={selected.code}
+                  modified={currentCode}
+                  theme="vs-light"
+                  options={{
+                    readOnly: true,
+                    renderSideBySide: true,
+                    minimap: { enabled: false },
+                    fontSize: 13,
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                    wordWrap: 'on',
+                  }}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CodeHistoryPanel;
@@ -0,0 +1,314 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ListTree, Plus, RefreshCw, Square, Trash2 } from 'lucide-react';
+import type { DetectedElement } from '../services/elementDetection';
+import {
+  UI_NODE_LABELS,
+  UI_NODE_TYPES,
+  flattenNodes,
+  getNodeAt,
+  insertNode,
+  removeNodeAt,
+  updateNodeAt,
+  type UIBounds,
+  type UIDescriptionTree,
+  type UINodePath,
+  type UINodeType,
+} from '../services/uiSchema';
+
+interface ComponentTreeEditorProps {
+  imageId: string;
+  imageUrl: string;
+  tree: UIDescriptionTree;
+  // Elements found by the analysis worker; ones the tree doesn't cover can be added with a click
+  detectedElements?: DetectedElement[];
+  onTreeChange: (imageId: string, tree: UIDescriptionTree) => void;
+  // Set once code exists; a box drawn in region mode regenerates just that part of the code
+  onRegionRegenerate?: (imageId: string, region: UIBounds) => void;
+}
+
+type DrawMode = 'node' | 'region';
+
+// Boxes smaller than this in either direction are treated as stray clicks while drawing
+const MIN_DRAWN_SIZE = 4;
+// Overlap (intersection over union) above which a detected element counts as already in the tree
+const COVERED_IOU = 0.5;
+
+const samePath = (a: UINodePath | null, b: UINodePath) =>
+  !!a && a.length === b.length && a.every((index, i) => index === b[i]);
+
+const intersectionOverUnion = (a: UIBounds, b: UIBounds): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+const ComponentTreeEditor: React.FC<ComponentTreeEditorProps> = ({
+  imageId,
+  imageUrl,
+  tree,
+  detectedElements = [],
+  onTreeChange,
+  onRegionRegenerate
+}) => {
+  const [selectedPath, setSelectedPath] = useState<UINodePath | null>(null);
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
+  const [showDetected, setShowDetected] = useState(false);
+  const [draftBox, setDraftBox] = useState<UIBounds | null>(null);
+  const [imageSize, setImageSize] = useState({ width: tree.canvas.width, height: tree.canvas.height });
+  const drawStart = useRef<{ x: number; y: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const nodes = useMemo(() => flattenNodes(tree), [tree]);
+  const selectedNode = selectedPath ? getNodeAt(tree, selectedPath) : undefined;
+  const uncoveredElements = useMemo(
+    () => detectedElements.filter((element) =>
+      !nodes.some(({ node }) => intersectionOverUnion(node.bounds, element) >= COVERED_IOU)
+    ),
+    [detectedElements, nodes]
+  );
+
+  const toImagePoint = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round(((event.clientX - rect.left) / rect.width) * imageSize.width),
+      y: Math.round(((event.clientY - rect.top) / rect.height) * imageSize.height),
+    };
+  };
+
+  const addNode = (type: UINodeType, bounds: UIBounds, text?: string) => {
+    const result = insertNode(tree, { type, bounds, ...(text ? { text } : {}) });
+    onTreeChange(imageId, result.tree);
+    setSelectedPath(result.path);
+  };
+
+  const isDrawing = drawMode !== null;
+
+  const toggleDrawMode = (mode: DrawMode) => setDrawMode(drawMode === mode ? null : mode);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!isDrawing) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawStart.current = toImagePoint(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!drawStart.current) return;
+    const point = toImagePoint(event);
+    setDraftBox({
+      x: Math.min(point.x, drawStart.current.x),
+      y: Math.min(point.y, drawStart.current.y),
+      width: Math.abs(point.x - drawStart.current.x),
+      height: Math.abs(point.y - drawStart.current.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draftBox && draftBox.width >= MIN_DRAWN_SIZE && draftBox.height >= MIN_DRAWN_SIZE) {
+      if (drawMode === 'region') {
+        onRegionRegenerate?.(imageId, draftBox);
+      } else {
+        addNode('container', draftBox);
+      }
+      setDrawMode(null);
+    }
+    drawStart.current = null;
+    setDraftBox(null);
+  };
+
+  const updateSelected = (changes: Parameters<typeof updateNodeAt>[2]) => {
+    if (selectedPath) onTreeChange(imageId, updateNodeAt(tree, selectedPath, changes));
+  };
+
+  const deleteSelected = () => {
+    if (!selectedPath) return;
+    onTreeChange(imageId, removeNodeAt(tree, selectedPath));
+    setSelectedPath(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-slate-900 flex items-center">
+          <ListTree className="h-4 w-4 mr-2" />
+          Component Tree
+        </label>
+        <div className="flex items-center gap-2">
+          {detectedElements.length > 0 && (
+            <label className="flex items-center text-xs text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showDetected}
+                onChange={(e) => setShowDetected(e.target.checked)}
+                className="mr-1"
+              />
+              Detected ({uncoveredElements.length})
+            </label>
+          )}
+          {onRegionRegenerate && (
+            <button
+              onClick={() => toggleDrawMode('region')}
+              className={`px-2 py-1 rounded text-xs font-medium transition-colors flex items-center ${
+                drawMode === 'region' ? 'bg-purple-600 text-white' : 'border border-slate-300 text-slate-700 hover:bg-slate-50'
+              }`}
+              title="Drag on the image to regenerate only that part of the code"
+            >
+              <RefreshCw className="h-3 w-3 mr-1" />
+              {drawMode === 'region' ? 'Select region...' : 'Regenerate region'}
+            </button>
+          )}
+          <button
+            onClick={() => toggleDrawMode('node')}
+            className={`px-2 py-1 rounded text-xs font-medium transition-colors flex items-center ${
+              drawMode === 'node' ? 'bg-blue-600 text-white' : 'border border-slate-300 text-slate-700 hover:bg-slate-50'
+            }`}
+            title="Drag on the image to add a component"
+          >
+            <Square className="h-3 w-3 mr-1" />
+            {drawMode === 'node' ? 'Drawing...' : 'Draw box'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="relative border border-slate-200 rounded-lg overflow-hidden bg-slate-50 self-start">
+          <img
+            src={imageUrl}
+            alt="Design with component bounds"
+            className="w-full block select-none"
+            draggable={false}
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+            preserveAspectRatio="none"
+            className={`absolute inset-0 w-full h-full ${isDrawing ? 'cursor-crosshair' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {nodes.map(({ node, path }) => {
+              const selected = samePath(selectedPath, path);
+              return (
+                <rect
+                  key={path.join('.')}
+                  x={node.bounds.x}
+                  y={node.bounds.y}
+                  width={node.bounds.width}
+                  height={node.bounds.height}
+                  fill={selected ? 'rgba(59, 130, 246, 0.2)' : 'transparent'}
+                  stroke={selected ? '#2563eb' : 'rgba(100, 116, 139, 0.5)'}
+                  strokeWidth={selected ? 3 : 1}
+                  vectorEffect="non-scaling-stroke"
+                  className={isDrawing ? 'pointer-events-none' : 'cursor-pointer'}
+                  onClick={() => setSelectedPath(path)}
+                />
+              );
+            })}
+            {showDetected && uncoveredElements.map((element, i) => (
+              <rect
+                key={`detected-${i}`}
+                x={element.x}
+                y={element.y}
+                width={element.width}
+                height={element.height}
+                fill="rgba(245, 158, 11, 0.1)"
+                stroke="#d97706"
+                strokeDasharray="4 3"
+                vectorEffect="non-scaling-stroke"
+                className={isDrawing ? 'pointer-events-none' : 'cursor-copy'}
+                onClick={() => addNode(element.type, { x: element.x, y: element.y, width: element.width, height: element.height }, element.text)}
+              >
+                <title>{`Add detected ${UI_NODE_LABELS[element.type]} (${Math.round(element.confidence * 100)}%)`}</title>
+              </rect>
+            ))}
+            {draftBox && (
+              <rect
+                {...draftBox}
+                fill={drawMode === 'region' ? 'rgba(147, 51, 234, 0.15)' : 'rgba(37, 99, 235, 0.15)'}
+                stroke={drawMode === 'region' ? '#9333ea' : '#2563eb'}
+                strokeDasharray="6 3"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </svg>
+        </div>
+
+        <div className="border border-slate-200 rounded-lg max-h-72 overflow-y-auto text-xs">
+          {nodes.length === 0 ? (
+            <p className="p-3 text-slate-400">No components yet. Draw a box on the image to add one.</p>
+          ) : nodes.map(({ node, path }) => (
+            <button
+              key={path.join('.')}
+              onClick={() => setSelectedPath(path)}
+              className={`w-full text-left py-1 pr-2 truncate transition-colors ${
+                samePath(selectedPath, path) ? 'bg-blue-50 text-blue-700' : 'text-slate-700 hover:bg-slate-50'
+              }`}
+              style={{ paddingLeft: 8 + (path.length - 1) * 12 }}
+            >
+              <span className="font-medium">{UI_NODE_LABELS[node.type]}</span>
+              {node.text && <span className="text-slate-500"> "{node.text}"</span>}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {selectedNode && selectedPath && (
+        <div className="border border-slate-200 rounded-lg p-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={selectedNode.type}
+              onChange={(e) => updateSelected({ type: e.target.value as UINodeType })}
+              className="px-2 py-1 border border-slate-300 rounded text-sm"
+              aria-label="Component type"
+            >
+              {UI_NODE_TYPES.map((type) => (
+                <option key={type} value={type}>{UI_NODE_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              value={selectedNode.text ?? ''}
+              onChange={(e) => updateSelected({ text: e.target.value || undefined })}
+              placeholder="Text"
+              className="px-2 py-1 border border-slate-300 rounded text-sm"
+              aria-label="Component text"
+            />
+          </div>
+          <input
+            value={selectedNode.functionality ?? ''}
+            onChange={(e) => updateSelected({ functionality: e.target.value || undefined })}
+            placeholder="Functionality, e.g. Submits the form"
+            className="w-full px-2 py-1 border border-slate-300 rounded text-sm"
+            aria-label="Component functionality"
+          />
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <span>
+              {selectedNode.bounds.width}x{selectedNode.bounds.height}px at ({selectedNode.bounds.x}, {selectedNode.bounds.y})
+              {selectedNode.children?.length ? `, ${selectedNode.children.length} children` : ''}
+            </span>
+            <button
+              onClick={deleteSelected}
+              className="flex items-center text-red-600 hover:text-red-700 transition-colors"
+              title="Remove this component and everything inside it"
+            >
+              <Trash2 className="h-3 w-3 mr-1" />
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>{nodes.length} components</span>
+        <span className="flex items-center">
+          <Plus className="h-3 w-3 mr-1" />
+          New boxes nest inside the component that contains them
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ComponentTreeEditor;
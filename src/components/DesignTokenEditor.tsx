@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Check, ChevronDown, ChevronRight, Copy, RotateCcw, Ruler } from 'lucide-react';
+import {
+  buildThemeModule,
+  TOKEN_SIZES,
+  TYPE_ROLES,
+  type DesignTokens,
+  type TokenSize,
+  type TypeRole,
+} from '../services/designTokens';
+import type { CodeFormat } from '../services/codeGenerationProvider';
+import type { DesignPalette } from '../services/paletteExtraction';
+
+interface DesignTokenEditorProps {
+  imageId: string;
+  tokens: DesignTokens | null;
+  detectedTokens: DesignTokens | null;
+  // Colors come from the palette editor; they're only needed to show the complete theme file
+  palette: DesignPalette | null;
+  codeFormat: CodeFormat;
+  onChange: (imageId: string, tokens: DesignTokens) => void;
+}
+
+const ROLE_LABELS: Record<TypeRole, string> = {
+  h1: 'Heading 1',
+  h2: 'Heading 2',
+  h3: 'Heading 3',
+  body1: 'Body',
+  body2: 'Body small',
+  caption: 'Caption',
+};
+
+const SIZE_LABELS: Record<TokenSize, string> = {
+  small: 'Small',
+  medium: 'Medium',
+  large: 'Large',
+};
+
+const FONT_WEIGHT_OPTIONS = [300, 400, 500, 600, 700, 800];
+
+// Where each format's export writes the theme
+const THEME_FILES: Record<CodeFormat, string> = {
+  'react-mui': 'src/theme.ts',
+  'react-native': 'theme.js',
+  'flutter': 'lib/theme.dart',
+};
+
+// Positive numbers only; anything else keeps the previous value
+const parsePixels = (value: string): number | null => {
+  const pixels = Number(value);
+  return Number.isFinite(pixels) && pixels > 0 ? pixels : null;
+};
+
+const DesignTokenEditor: React.FC<DesignTokenEditorProps> = ({
+  imageId,
+  tokens,
+  detectedTokens,
+  palette,
+  codeFormat,
+  onChange
+}) => {
+  const [showTheme, setShowTheme] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const isEdited = !!tokens && !!detectedTokens && JSON.stringify(tokens) !== JSON.stringify(detectedTokens);
+  const themeCode = tokens && showTheme ? buildThemeModule(codeFormat, palette, tokens) : '';
+
+  const updateTypeStyle = (role: TypeRole, change: Partial<DesignTokens['typography'][TypeRole]>) => {
+    if (!tokens) return;
+    onChange(imageId, { ...tokens, typography: { ...tokens.typography, [role]: { ...tokens.typography[role], ...change } } });
+  };
+
+  const copyTheme = async () => {
+    try {
+      await navigator.clipboard.writeText(themeCode);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy theme:', error);
+    }
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-slate-300 rounded text-xs';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-slate-900 flex items-center">
+          <Ruler className="h-4 w-4 mr-2" />
+          Design Tokens
+        </label>
+        {isEdited && detectedTokens && (
+          <button
+            onClick={() => onChange(imageId, detectedTokens)}
+            className="flex items-center text-xs text-slate-600 hover:text-slate-900 transition-colors"
+            title="Restore the tokens derived from the design"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </button>
+        )}
+      </div>
+
+      {tokens ? (
+        <>
+          <input
+            value={tokens.fontFamily}
+            onChange={(e) => onChange(imageId, { ...tokens, fontFamily: e.target.value })}
+            className={`${inputClass} font-mono`}
+            aria-label="Font family"
+            title="Font family"
+          />
+          <div className="grid grid-cols-3 gap-x-2 gap-y-1 items-center">
+            {TYPE_ROLES.map((role) => (
+              <React.Fragment key={role}>
+                <span
+                  className="text-xs text-slate-700 truncate"
+                  style={{ fontSize: Math.min(tokens.typography[role].fontSize, 20), fontWeight: tokens.typography[role].fontWeight }}
+                >
+                  {ROLE_LABELS[role]}
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  value={tokens.typography[role].fontSize}
+                  onChange={(e) => {
+                    const fontSize = parsePixels(e.target.value);
+                    if (fontSize) updateTypeStyle(role, { fontSize });
+                  }}
+                  className={inputClass}
+                  aria-label={`${ROLE_LABELS[role]} size in px`}
+                />
+                <select
+                  value={tokens.typography[role].fontWeight}
+                  onChange={(e) => updateTypeStyle(role, { fontWeight: Number(e.target.value) })}
+                  className={`${inputClass} bg-white`}
+                  aria-label={`${ROLE_LABELS[role]} weight`}
+                >
+                  {FONT_WEIGHT_OPTIONS.map((weight) => <option key={weight} value={weight}>{weight}</option>)}
+                </select>
+              </React.Fragment>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            <label className="text-xs text-slate-700 space-y-1">
+              <span>Spacing</span>
+              <input
+                type="number"
+                min={1}
+                value={tokens.spacing}
+                onChange={(e) => {
+                  const spacing = parsePixels(e.target.value);
+                  if (spacing) onChange(imageId, { ...tokens, spacing });
+                }}
+                className={inputClass}
+              />
+            </label>
+            {TOKEN_SIZES.map((size) => (
+              <label key={size} className="text-xs text-slate-700 space-y-1">
+                <span>{SIZE_LABELS[size]} radius</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={tokens.radii[size]}
+                  onChange={(e) => {
+                    const radius = Number(e.target.value);
+                    if (Number.isFinite(radius) && radius >= 0) onChange(imageId, { ...tokens, radii: { ...tokens.radii, [size]: radius } });
+                  }}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            {TOKEN_SIZES.map((size) => (
+              <div key={size} className="flex items-center gap-2">
+                <div
+                  className="h-6 w-6 flex-shrink-0 bg-white border border-slate-200"
+                  style={{ boxShadow: tokens.shadows[size], borderRadius: tokens.radii[size] }}
+                />
+                <input
+                  value={tokens.shadows[size]}
+                  onChange={(e) => onChange(imageId, { ...tokens, shadows: { ...tokens.shadows, [size]: e.target.value } })}
+                  className={`${inputClass} font-mono`}
+                  aria-label={`${SIZE_LABELS[size]} shadow`}
+                  title={`${SIZE_LABELS[size]} shadow, as CSS box-shadow or none`}
+                />
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={() => setShowTheme(!showTheme)}
+            className="flex items-center text-xs text-slate-600 hover:text-slate-900 transition-colors"
+          >
+            {showTheme ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+            {THEME_FILES[codeFormat]}
+          </button>
+          {showTheme && (
+            <div className="relative">
+              <button
+                onClick={copyTheme}
+                className="absolute top-1 right-1 p-1 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded"
+                title="Copy theme"
+              >
+                {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+              </button>
+              <pre className="max-h-64 overflow-auto p-2 bg-slate-50 border border-slate-200 rounded text-xs font-mono text-slate-700">
+                {themeCode}
+              </pre>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-slate-400">Type scale, spacing, radii and shadows are derived once the design is described</p>
+      )}
+
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>Generated code references these through the theme</span>
+        <span>Sizes in px</span>
+      </div>
+    </div>
+  );
+};
+
+export default DesignTokenEditor;
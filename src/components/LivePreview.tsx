@@ -1,5 +1,11 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { X, Smartphone, Monitor, RefreshCw, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { X, Smartphone, Monitor, RefreshCw, AlertCircle, Wrench, Loader2, ScanEye } from 'lucide-react';
+import { compileComponent } from '../services/codeCompiler';
+import { isPreviewRuntimeEvent } from '../preview/protocol';
+import { captureComponent, loadPreviewDocument, postToPreview } from '../preview/client';
+import { compareImages, loadImage, type VisualDiffResult } from '../services/visualDiff';
+import { buildMuiThemeModule, buildMuiThemeOptions, type DesignTokens } from '../services/designTokens';
+import type { DesignPalette } from '../services/paletteExtraction';
 
 interface LivePreviewProps {
   code: string;
@@ -8,6 +14,22 @@ interface LivePreviewProps {
   onClose: () => void;
   viewportWidth: number;
   previewRef: React.MutableRefObject<HTMLIFrameElement | null>;
+  // Called with errors thrown by the component inside the local preview runtime
+  onRuntimeError?: (message: string) => void;
+  onRepair?: (message: string) => void;
+  isRepairing?: boolean;
+  // Source design the local preview can be compared against
+  designImageUrl?: string;
+  // The design's colors and tokens; MUI previews render inside a theme built from them
+  palette?: DesignPalette | null;
+  tokens?: DesignTokens | null;
+}
+
+type PreviewMode = 'local' | 'remote';
+
+interface DesignComparison extends VisualDiffResult {
+  designUrl: string;
+  renderedUrl: string;
 }
 
 // Helper function for Base64 encoding (used by Expo Snack)
@@ -23,7 +45,13 @@ const LivePreview: React.FC<LivePreviewProps> = ({
   codeFormat,
   onClose,
   viewportWidth: initialViewportWidth,
-  previewRef
+  previewRef,
+  onRuntimeError,
+  onRepair,
+  isRepairing = false,
+  designImageUrl,
+  palette,
+  tokens
 }) => {
   const [viewportWidth, setViewportWidth] = useState(initialViewportWidth);
   const [previewDevice, setPreviewDevice] = useState<'desktop' | 'mobile'>(
@@ -32,7 +60,20 @@ const LivePreview: React.FC<LivePreviewProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [previewUrl, setPreviewUrl] = useState('');
   const [error, setError] = useState<string | null>(null);
+  // React + MUI components render in the browser unless the user switches back to CodeSandbox
+  const [previewMode, setPreviewMode] = useState<PreviewMode>('local');
+  const [srcDoc, setSrcDoc] = useState('');
+  const [runtimeError, setRuntimeError] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<DesignComparison | null>(null);
+  const [comparisonError, setComparisonError] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [overlayPosition, setOverlayPosition] = useState(50);
+  const [showHeatmap, setShowHeatmap] = useState(false);
   const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const compiledModuleRef = useRef<string | null>(null);
+  const runtimeReadyRef = useRef(false);
+  const isLocalPreview = codeFormat === 'react-mui' && previewMode === 'local';
+  const themeOptions = useMemo(() => buildMuiThemeOptions(palette, tokens), [palette, tokens]);
 
   // Function to create a DartPad URL for Flutter code
   const createDartPadUrl = useCallback(async (flutterCode: string): Promise<string> => {
@@ -333,14 +374,20 @@ class MyApp extends StatelessWidget {
         content: reactCode,
         isBinary: false
       },
+      ...(isMui && {
+        'src/theme.js': {
+          content: buildMuiThemeModule(palette, tokens),
+          isBinary: false
+        }
+      }),
       'src/index.js': {
         content: `import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 ${isMui ? `
-import { ThemeProvider, createTheme } from '@mui/material/styles';
+import { ThemeProvider } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
-const theme = createTheme();
+import { theme } from './theme';
 ` : ''}
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -388,17 +435,67 @@ if (!rootElement) {
       // Wrap error to avoid modifying read-only properties
       throw new Error(`Failed to create CodeSandbox preview: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, []);
+  }, [palette, tokens]);
+
+  const postCompiledModule = useCallback(() => {
+    const contentWindow = iframeRef.current?.contentWindow;
+    if (contentWindow && compiledModuleRef.current !== null) {
+      postToPreview(contentWindow, { type: 'preview:render', code: compiledModuleRef.current, theme: themeOptions });
+    }
+  }, [themeOptions]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || !isPreviewRuntimeEvent(event.data)) {
+        return;
+      }
+      switch (event.data.type) {
+        case 'preview:ready':
+          runtimeReadyRef.current = true;
+          postCompiledModule();
+          break;
+        case 'preview:rendered':
+          setRuntimeError(null);
+          break;
+        case 'preview:error':
+          setRuntimeError(event.data.message);
+          onRuntimeError?.(event.data.message);
+          break;
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [postCompiledModule, onRuntimeError]);
 
   // Initialize preview
   const initializePreview = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
+      setRuntimeError(null);
+      setComparison(null);
+      setComparisonError(null);
       setPreviewUrl('');
       if (!code || !code.trim()) {
         throw new Error('No code provided for preview');
       }
+      if (isLocalPreview) {
+        const { code: compiledModule, diagnostics } = await compileComponent(code, codeFormat);
+        if (compiledModule === null) {
+          const firstError = diagnostics.find((d) => d.severity === 'error');
+          throw new Error(firstError ? `Line ${firstError.line}: ${firstError.message}` : 'Compilation failed');
+        }
+        compiledModuleRef.current = compiledModule;
+        // A running runtime re-renders in place; otherwise the module is sent once it reports ready
+        if (runtimeReadyRef.current) {
+          postCompiledModule();
+        } else {
+          setSrcDoc(await loadPreviewDocument());
+        }
+        return;
+      }
+      setSrcDoc('');
+      runtimeReadyRef.current = false;
       let url: string;
       if (codeFormat === 'react-mui') {
         const processedCode = prepareCodeForPreview(code);
@@ -423,7 +520,7 @@ if (!rootElement) {
     } finally {
       setIsLoading(false);
     }
-  }, [code, codeFormat, prepareCodeForPreview, createCodeSandboxUrl, createSnackUrl, createDartPadUrl]);
+  }, [code, codeFormat, isLocalPreview, postCompiledModule, prepareCodeForPreview, createCodeSandboxUrl, createSnackUrl, createDartPadUrl]);
 
   useEffect(() => {
     if (!code || !code.trim()) {
@@ -435,6 +532,24 @@ if (!rootElement) {
     return () => {};
   }, [code, codeFormat, initializePreview]);
 
+  // Renders the component at the design's size in a separate runtime and scores the screenshot against the design
+  const compareWithDesign = useCallback(async () => {
+    if (!designImageUrl || compiledModuleRef.current === null) return;
+    setIsComparing(true);
+    setComparisonError(null);
+    try {
+      const design = await loadImage(designImageUrl);
+      const renderedUrl = await captureComponent(compiledModuleRef.current, design.naturalWidth, design.naturalHeight, themeOptions);
+      const rendered = await loadImage(renderedUrl);
+      setComparison({ ...compareImages(design, rendered), designUrl: designImageUrl, renderedUrl });
+    } catch (err) {
+      console.error('Failed to compare preview with design:', err);
+      setComparisonError(err instanceof Error ? err.message : 'Failed to compare the preview with the design');
+    } finally {
+      setIsComparing(false);
+    }
+  }, [designImageUrl, themeOptions]);
+
   const handleIframeLoad = useCallback(() => {
     setTimeout(() => {
       setIsLoading(false);
@@ -450,10 +565,14 @@ if (!rootElement) {
   const renderIframe = (title: string) => (
     <iframe
       ref={(ref) => {
+        if (!ref) {
+          runtimeReadyRef.current = false;
+        }
         iframeRef.current = ref;
         previewRef.current = ref;
       }}
-      src={previewUrl}
+      src={isLocalPreview ? undefined : previewUrl}
+      srcDoc={isLocalPreview ? srcDoc : undefined}
       title={title}
       className="w-full h-full"
       style={{
@@ -462,7 +581,8 @@ if (!rootElement) {
         width: '100%',
         height: '100%',
       }}
-      sandbox="allow-scripts allow-same-origin allow-popups allow-forms allow-modals"
+      // The local runtime gets an opaque origin so generated code cannot reach the app's window or storage
+      sandbox={isLocalPreview ? 'allow-scripts' : 'allow-scripts allow-same-origin allow-popups allow-forms allow-modals'}
       onLoad={handleIframeLoad}
       onError={handleIframeError}
     />
@@ -526,7 +646,7 @@ if (!rootElement) {
                 </div>
                 <div className="flex-1 text-center">
                   <div className="bg-white border border-gray-300 rounded px-3 py-1 text-xs text-gray-600 inline-block">
-                    {codeFormat === 'flutter' ? 'DartPad Preview' : codeFormat === 'react-native' ? 'Expo Snack Preview' : 'CodeSandbox Preview'}
+                    {codeFormat === 'flutter' ? 'DartPad Preview' : codeFormat === 'react-native' ? 'Expo Snack Preview' : isLocalPreview ? 'Local Preview' : 'CodeSandbox Preview'}
                   </div>
                 </div>
               </div>
@@ -541,6 +661,54 @@ if (!rootElement) {
     );
   };
 
+  const renderComparison = (result: DesignComparison) => (
+    <div className="absolute inset-0 overflow-auto p-4 flex flex-col items-center gap-3 z-10 bg-gray-100">
+      <div className="flex flex-wrap items-center gap-4 text-sm bg-white rounded-lg shadow px-4 py-2">
+        <span>Pixel match <strong>{(result.pixelMatch * 100).toFixed(1)}%</strong></span>
+        <span>SSIM <strong>{result.ssim.toFixed(3)}</strong></span>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={showHeatmap} onChange={(e) => setShowHeatmap(e.target.checked)} />
+          Heatmap
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={overlayPosition}
+          onChange={(e) => setOverlayPosition(Number(e.target.value))}
+          disabled={showHeatmap}
+          aria-label="Overlay position"
+        />
+        <button
+          onClick={() => setComparison(null)}
+          className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 transition-colors"
+        >
+          Back to preview
+        </button>
+      </div>
+      <div
+        className="relative shadow-2xl bg-white flex-shrink-0"
+        style={{ width: '100%', maxWidth: `${result.width}px`, aspectRatio: `${result.width} / ${result.height}` }}
+      >
+        <img src={result.designUrl} alt="Source design" className="absolute inset-0 w-full h-full" />
+        {showHeatmap ? (
+          <img src={result.heatmapUrl} alt="Difference heatmap" className="absolute inset-0 w-full h-full" />
+        ) : (
+          <>
+            {/* The rendered screenshot covers the design up to the slider position */}
+            <img
+              src={result.renderedUrl}
+              alt="Rendered component"
+              className="absolute inset-0 w-full h-full"
+              style={{ clipPath: `inset(0 ${100 - overlayPosition}% 0 0)` }}
+            />
+            <div className="absolute top-0 bottom-0 w-0.5 bg-blue-600" style={{ left: `${overlayPosition}%` }} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+
   const renderLoading = () => (
     <div className="absolute inset-0 bg-white bg-opacity-90 flex items-center justify-center z-10">
       <div className="flex flex-col items-center gap-4 text-blue-600">
@@ -561,7 +729,7 @@ if (!rootElement) {
           <div className="mt-2">
             <strong>Code Format:</strong> {codeFormat}<br />
             <strong>Code Length:</strong> {code?.length || 0} characters<br />
-            <strong>Preview URL:</strong> {previewUrl || 'Not generated'}<br />
+            <strong>Preview URL:</strong> {isLocalPreview ? 'Local renderer' : previewUrl || 'Not generated'}<br />
             <strong>Original Code (first 200 chars):</strong>
             <pre className="bg-gray-100 p-2 mt-1 rounded overflow-auto max-h-20 text-xs">
               {code?.substring(0, 200)}...
@@ -601,6 +769,27 @@ if (!rootElement) {
             <option value={1280}>Desktop (1280px)</option>
             <option value={1920}>Wide (1920px)</option>
           </select>
+          {isLocalPreview && designImageUrl && (
+            <button
+              onClick={compareWithDesign}
+              className="p-2 rounded bg-gray-600 hover:bg-gray-500 transition-colors"
+              title="Compare with Design"
+              disabled={isLoading || isComparing}
+            >
+              {isComparing ? <Loader2 size={20} className="animate-spin" /> : <ScanEye size={20} />}
+            </button>
+          )}
+          {codeFormat === 'react-mui' && (
+            <select
+              value={previewMode}
+              onChange={(e) => setPreviewMode(e.target.value as PreviewMode)}
+              className="bg-gray-600 text-white rounded p-1 text-sm"
+              title="Preview Renderer"
+            >
+              <option value="local">Local renderer</option>
+              <option value="remote">CodeSandbox</option>
+            </select>
+          )}
           <button
             onClick={initializePreview}
             className="p-2 rounded bg-gray-600 hover:bg-gray-500 transition-colors"
@@ -621,8 +810,34 @@ if (!rootElement) {
       <div className="flex-grow relative overflow-hidden w-full h-full">
         {isLoading && renderLoading()}
         {error && renderError()}
-        {previewUrl && !error && renderDeviceFrame(
-          renderIframe(`${codeFormat === 'flutter' ? 'DartPad' : codeFormat === 'react-native' ? 'Expo Snack' : 'CodeSandbox'} Preview`)
+        {(isLocalPreview ? srcDoc : previewUrl) && !error && renderDeviceFrame(
+          renderIframe(`${codeFormat === 'flutter' ? 'DartPad' : codeFormat === 'react-native' ? 'Expo Snack' : isLocalPreview ? 'Local' : 'CodeSandbox'} Preview`)
+        )}
+        {comparison && isLocalPreview && !error && renderComparison(comparison)}
+        {comparisonError && !error && (
+          <div className="absolute top-0 inset-x-0 bg-amber-50 border-b border-amber-200 text-amber-800 text-sm px-4 py-2 flex items-start gap-2 z-10">
+            <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+            <span className="flex-1 break-words">Comparison failed: {comparisonError}</span>
+            <button onClick={() => setComparisonError(null)} title="Dismiss" className="flex-shrink-0">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+        {runtimeError && !error && (
+          <div className="absolute bottom-0 inset-x-0 bg-red-50 border-t border-red-200 text-red-700 text-sm px-4 py-2 flex items-start gap-2 z-10">
+            <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+            <span className="flex-1 break-words">Runtime error: {runtimeError}</span>
+            {onRepair && (
+              <button
+                onClick={() => onRepair(runtimeError)}
+                disabled={isRepairing}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-red-600 text-white text-xs font-medium hover:bg-red-700 disabled:opacity-60 transition-colors flex-shrink-0"
+              >
+                {isRepairing ? <Loader2 size={14} className="animate-spin" /> : <Wrench size={14} />}
+                {isRepairing ? 'Repairing...' : 'Repair'}
+              </button>
+            )}
+          </div>
         )}
       </div>
     </div>
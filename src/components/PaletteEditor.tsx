@@ -0,0 +1,94 @@
+import React from 'react';
+import { Loader2, Palette, RotateCcw } from 'lucide-react';
+import { PALETTE_ROLES, type DesignPalette, type PaletteRole } from '../services/paletteExtraction';
+
+interface PaletteEditorProps {
+  imageId: string;
+  palette: DesignPalette | null;
+  detectedPalette: DesignPalette | null;
+  onChange: (imageId: string, palette: DesignPalette) => void;
+  isExtracting: boolean;
+}
+
+const ROLE_LABELS: Record<PaletteRole, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  background: 'Background',
+  surface: 'Surface',
+  text: 'Text',
+};
+
+const PaletteEditor: React.FC<PaletteEditorProps> = ({
+  imageId,
+  palette,
+  detectedPalette,
+  onChange,
+  isExtracting
+}) => {
+  const isEdited = !!palette && !!detectedPalette &&
+    PALETTE_ROLES.some((role) => palette[role] !== detectedPalette[role]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-slate-900 flex items-center">
+          <Palette className="h-4 w-4 mr-2" />
+          Design Palette
+        </label>
+        {isExtracting ? (
+          <div className="flex items-center text-sm text-blue-600">
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            Analyzing design...
+          </div>
+        ) : isEdited && detectedPalette && (
+          <button
+            onClick={() => onChange(imageId, detectedPalette)}
+            className="flex items-center text-xs text-slate-600 hover:text-slate-900 transition-colors"
+            title="Restore the colors sampled from the design"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </button>
+        )}
+      </div>
+
+      {palette ? (
+        <>
+          <div className="grid grid-cols-5 gap-2">
+            {PALETTE_ROLES.map((role) => (
+              <label key={role} className="flex flex-col items-center gap-1 cursor-pointer">
+                <input
+                  type="color"
+                  value={palette[role]}
+                  onChange={(e) => onChange(imageId, { ...palette, [role]: e.target.value })}
+                  className="h-10 w-full rounded-lg border border-slate-300 cursor-pointer bg-white"
+                  aria-label={`${ROLE_LABELS[role]} color`}
+                />
+                <span className="text-xs font-medium text-slate-700">{ROLE_LABELS[role]}</span>
+                <span className="text-xs font-mono text-slate-500">{palette[role]}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex h-3 rounded overflow-hidden border border-slate-200" title="Colors found in the design">
+            {palette.swatches.map((swatch) => (
+              <div
+                key={swatch.hex}
+                style={{ backgroundColor: swatch.hex, flexGrow: swatch.share }}
+                title={`${swatch.hex} (${Math.round(swatch.share * 100)}%)`}
+              />
+            ))}
+          </div>
+        </>
+      ) : !isExtracting && (
+        <p className="text-sm text-slate-400">Colors will be sampled from the uploaded design</p>
+      )}
+
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>Used as the generated theme's colors</span>
+        <span>Click a swatch to edit</span>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteEditor;
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { Check, ChevronDown, Copy, Download, FolderOpen, Loader2, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import type { ProjectSummary } from '../services/projectStore';
+
+export type SaveState = 'saved' | 'saving' | 'error';
+
+interface ProjectManagerProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  currentProjectName: string;
+  saveState: SaveState;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  // Downloads the open project as a zip bundle
+  onExport: () => void;
+  onImport: (archive: File) => void;
+}
+
+const SAVE_LABELS: Record<SaveState, string> = {
+  saved: 'Saved',
+  saving: 'Saving...',
+  error: 'Not saved',
+};
+
+const ProjectManager: React.FC<ProjectManagerProps> = ({
+  projects,
+  currentProjectId,
+  currentProjectName,
+  saveState,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) onRename(renamingId, draftName.trim());
+    setRenamingId(null);
+  };
+
+  const confirmDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}" and its ${project.imageCount} image(s)? This cannot be undone.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center px-3 py-2 text-sm text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+      >
+        <FolderOpen className="h-4 w-4 mr-2" />
+        <span className="max-w-[12rem] truncate font-medium">{currentProjectName}</span>
+        <span className={`ml-2 text-xs flex items-center ${saveState === 'error' ? 'text-red-600' : 'text-slate-400'}`}>
+          {saveState === 'saving' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {SAVE_LABELS[saveState]}
+        </span>
+        <ChevronDown className="h-4 w-4 ml-1" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-lg border border-slate-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+            <span className="text-sm font-medium text-slate-900">Projects</span>
+            <button
+              onClick={() => {
+                onCreate();
+                setIsOpen(false);
+              }}
+              className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-700 transition-colors"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              New project
+            </button>
+          </div>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-slate-100">
+            {projects.length === 0 && (
+              <li className="px-4 py-3 text-sm text-slate-400">Projects are saved automatically as you work</li>
+            )}
+            {projects.map((project) => (
+              <li
+                key={project.id}
+                className={`px-4 py-2 flex items-center gap-2 ${project.id === currentProjectId ? 'bg-blue-50' : ''}`}
+              >
+                {renamingId === project.id ? (
+                  <>
+                    <input
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      autoFocus
+                      className="flex-1 px-2 py-1 border border-slate-300 rounded text-sm"
+                      aria-label="Project name"
+                    />
+                    <button onClick={commitRename} className="p-1 text-green-600 hover:bg-slate-100 rounded" title="Save name">
+                      <Check className="h-3 w-3" />
+                    </button>
+                    <button onClick={() => setRenamingId(null)} className="p-1 text-slate-500 hover:bg-slate-100 rounded" title="Cancel">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => {
+                        onOpen(project.id);
+                        setIsOpen(false);
+                      }}
+                      className="flex-1 text-left min-w-0"
+                    >
+                      <span className="block text-sm text-slate-800 truncate">{project.name}</span>
+                      <span className="block text-xs text-slate-500">
+                        {project.imageCount} image{project.imageCount === 1 ? '' : 's'} · {new Date(project.updatedAt).toLocaleString()}
+                      </span>
+                    </button>
+                    <button onClick={() => startRename(project)} className="p-1 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded" title="Rename">
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                    <button onClick={() => onDuplicate(project.id)} className="p-1 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded" title="Duplicate">
+                      <Copy className="h-3 w-3" />
+                    </button>
+                    <button onClick={() => confirmDelete(project)} className="p-1 text-red-500 hover:text-red-700 hover:bg-slate-100 rounded" title="Delete">
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="flex border-t border-slate-200">
+            <button
+              onClick={() => {
+                onExport();
+                setIsOpen(false);
+              }}
+              className="flex-1 flex items-center justify-center px-4 py-2 text-xs font-medium text-slate-700 hover:bg-slate-50 transition-colors"
+              title="Download images, descriptions, code, settings and history as a zip"
+            >
+              <Download className="h-3 w-3 mr-1" />
+              Export project
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center px-4 py-2 text-xs font-medium text-slate-700 hover:bg-slate-50 border-l border-slate-200 transition-colors"
+              title="Open a project bundle exported from this app"
+            >
+              <Upload className="h-3 w-3 mr-1" />
+              Import project
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const archive = e.target.files?.[0];
+                e.target.value = '';
+                if (archive) {
+                  onImport(archive);
+                  setIsOpen(false);
+                }
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectManager;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import type { OpenAICompatibleConfig, OpenAICompatibleAuthScheme } from '../services/openAICompatibleService';
+
+interface ProviderOption {
+  id: string;
+  label: string;
+}
+
+interface ProviderSettingsProps {
+  providers: ProviderOption[];
+  providerId: string;
+  onProviderChange: (providerId: string) => void;
+  // Only passed when the selected provider talks to a self-hosted endpoint
+  connection?: OpenAICompatibleConfig;
+  onConnectionChange?: (connection: OpenAICompatibleConfig) => void;
+  disabled?: boolean;
+}
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({
+  providers,
+  providerId,
+  onProviderChange,
+  connection,
+  onConnectionChange,
+  disabled = false
+}) => {
+  const updateConnection = (changes: Partial<OpenAICompatibleConfig>) => {
+    if (connection && onConnectionChange) {
+      onConnectionChange({ ...connection, ...changes });
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:opacity-50';
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-slate-900 flex items-center">
+        <Cpu className="h-4 w-4 mr-2" />
+        AI Provider
+      </label>
+      <select
+        value={providerId}
+        onChange={(e) => onProviderChange(e.target.value)}
+        disabled={disabled}
+        className={inputClassName}
+      >
+        {providers.map(({ id, label }) => (
+          <option key={id} value={id}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-slate-500">
+        Used for both description and code generation in this project
+      </p>
+
+      {connection && (
+        <div className="grid grid-cols-2 gap-2 pt-1">
+          <input
+            value={connection.baseURL}
+            onChange={(e) => updateConnection({ baseURL: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            aria-label="Base URL"
+            disabled={disabled}
+            className={`${inputClassName} col-span-2`}
+          />
+          <input
+            value={connection.model}
+            onChange={(e) => updateConnection({ model: e.target.value })}
+            placeholder="Model name"
+            aria-label="Model name"
+            disabled={disabled}
+            className={inputClassName}
+          />
+          <select
+            value={connection.authScheme}
+            onChange={(e) => updateConnection({ authScheme: e.target.value as OpenAICompatibleAuthScheme })}
+            aria-label="Authentication"
+            disabled={disabled}
+            className={inputClassName}
+          >
+            <option value="none">No auth</option>
+            <option value="bearer">Bearer token</option>
+            <option value="api-key">API key header</option>
+          </select>
+          {connection.authScheme !== 'none' && (
+            <input
+              type="password"
+              value={connection.apiKey}
+              onChange={(e) => updateConnection({ apiKey: e.target.value })}
+              placeholder={connection.authScheme === 'bearer' ? 'Token' : 'API key'}
+              aria-label="API key"
+              disabled={disabled}
+              className={connection.authScheme === 'api-key' ? inputClassName : `${inputClassName} col-span-2`}
+            />
+          )}
+          {connection.authScheme === 'api-key' && (
+            <input
+              value={connection.authHeader}
+              onChange={(e) => updateConnection({ authHeader: e.target.value })}
+              placeholder="Header name"
+              aria-label="API key header name"
+              disabled={disabled}
+              className={inputClassName}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
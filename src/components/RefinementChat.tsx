@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle, Clock, Loader2, MessageCircle, Send, XCircle } from 'lucide-react';
+
+export type ChatTurnStatus = 'pending' | 'review' | 'applied' | 'rejected' | 'failed';
+
+// One instruction sent about an image's code and what became of the proposed edit
+export interface ChatTurn {
+  id: string;
+  instruction: string;
+  status: ChatTurnStatus;
+  createdAt: number;
+  // Why the turn produced no edit, for failed turns
+  note?: string;
+}
+
+interface RefinementChatProps {
+  imageId: string;
+  turns: ChatTurn[];
+  onSend: (imageId: string, instruction: string) => void;
+  // No code yet, or another generation or review is in progress
+  disabled: boolean;
+}
+
+const STATUS_LABELS: Record<ChatTurnStatus, string> = {
+  pending: 'Revising...',
+  review: 'Waiting for review',
+  applied: 'Applied',
+  rejected: 'Rejected',
+  failed: 'No change',
+};
+
+const STATUS_ICONS: Record<ChatTurnStatus, React.ReactNode> = {
+  pending: <Loader2 className="h-3 w-3 mr-1 animate-spin" />,
+  review: <Clock className="h-3 w-3 mr-1" />,
+  applied: <CheckCircle className="h-3 w-3 mr-1" />,
+  rejected: <XCircle className="h-3 w-3 mr-1" />,
+  failed: <XCircle className="h-3 w-3 mr-1" />,
+};
+
+const STATUS_COLORS: Record<ChatTurnStatus, string> = {
+  pending: 'text-blue-600',
+  review: 'text-purple-600',
+  applied: 'text-green-600',
+  rejected: 'text-slate-500',
+  failed: 'text-red-600',
+};
+
+const RefinementChat: React.FC<RefinementChatProps> = ({
+  imageId,
+  turns,
+  onSend,
+  disabled
+}) => {
+  const [message, setMessage] = useState('');
+  const threadRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight });
+  }, [turns.length]);
+
+  const send = () => {
+    const instruction = message.trim();
+    if (!instruction || disabled) return;
+    onSend(imageId, instruction);
+    setMessage('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-slate-900 flex items-center">
+        <MessageCircle className="h-4 w-4 mr-2" />
+        Refine with Chat
+      </label>
+
+      <div ref={threadRef} className="max-h-64 overflow-y-auto space-y-2">
+        {turns.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            Ask for changes to the generated code, e.g. "make the sidebar collapsible". Each edit is shown as a diff before it is applied.
+          </p>
+        ) : turns.map((turn) => (
+          <div key={turn.id} className="rounded-lg bg-slate-50 border border-slate-200 px-3 py-2">
+            <p className="text-sm text-slate-800 whitespace-pre-wrap">{turn.instruction}</p>
+            <div className="flex justify-between mt-1 text-xs">
+              <span className={`flex items-center ${STATUS_COLORS[turn.status]}`}>
+                {STATUS_ICONS[turn.status]}
+                {STATUS_LABELS[turn.status]}
+                {turn.note && <span className="ml-1 text-slate-500">({turn.note})</span>}
+              </span>
+              <span className="text-slate-400">{new Date(turn.createdAt).toLocaleTimeString()}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          placeholder={disabled ? 'Generate code first, or wait for the current edit' : 'Describe a change... (Enter to send)'}
+          className="flex-1 h-16 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
+          disabled={disabled}
+        />
+        <button
+          onClick={send}
+          disabled={disabled || !message.trim()}
+          className="px-3 rounded-lg bg-gradient-to-r from-purple-500 to-purple-600 text-white hover:from-purple-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          title="Send"
+        >
+          <Send className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefinementChat;
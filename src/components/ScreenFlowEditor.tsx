@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowRight, ArrowUp, Loader2, Play, Plus, Square, Workflow, X } from 'lucide-react';
+import {
+  createTransitionId,
+  findSharedLayout,
+  moveFlowScreen,
+  removeFlowScreen,
+  type ScreenFlow,
+} from '../services/screenFlow';
+import { flattenNodes, UI_NODE_LABELS, type UIDescriptionTree, type UINodeType } from '../services/uiSchema';
+
+interface FlowImage {
+  id: string;
+  file: File;
+  preview: string;
+  uiTree: UIDescriptionTree | null;
+  code: string;
+}
+
+interface ScreenFlowEditorProps {
+  images: FlowImage[];
+  flow: ScreenFlow;
+  onChange: (flow: ScreenFlow) => void;
+  onGenerateApp: () => void;
+  onStop: () => void;
+  // Progress of a running app generation, e.g. 'Wiring navigation into Dashboard (2/3)'
+  status: string | null;
+  disabled: boolean;
+}
+
+// Elements worth offering as transition triggers
+const TRIGGER_TYPES: UINodeType[] = ['button', 'tab', 'list_item', 'card', 'icon', 'text'];
+
+const ScreenFlowEditor: React.FC<ScreenFlowEditorProps> = ({
+  images,
+  flow,
+  onChange,
+  onGenerateApp,
+  onStop,
+  status,
+  disabled
+}) => {
+  const [fromId, setFromId] = useState('');
+  const [trigger, setTrigger] = useState('');
+  const [toId, setToId] = useState('');
+
+  const linked = flow.screenIds
+    .map((id) => images.find((img) => img.id === id))
+    .filter((img): img is FlowImage => !!img);
+  const unlinked = images.filter((img) => !flow.screenIds.includes(img.id));
+  const nameOf = (id: string) => images.find((img) => img.id === id)?.file.name ?? 'Removed screen';
+
+  const sharedLayout = useMemo(() => findSharedLayout(flow.screenIds.flatMap((id) => {
+    const tree = images.find((img) => img.id === id)?.uiTree;
+    return tree ? [{ id, tree }] : [];
+  })), [images, flow.screenIds]);
+
+  const triggerSuggestions = useMemo(() => {
+    const tree = images.find((img) => img.id === fromId)?.uiTree;
+    if (!tree) return [];
+    const texts = flattenNodes(tree)
+      .filter(({ node }) => node.text && TRIGGER_TYPES.includes(node.type))
+      .map(({ node }) => `${node.text} ${UI_NODE_LABELS[node.type].toLowerCase()}`);
+    return [...new Set(texts)];
+  }, [images, fromId]);
+
+  const addTransition = () => {
+    onChange({
+      ...flow,
+      transitions: [...flow.transitions, { id: createTransitionId(), fromImageId: fromId, trigger: trigger.trim(), toImageId: toId }],
+    });
+    setTrigger('');
+  };
+
+  const isBuilding = status !== null;
+  const isLocked = disabled || isBuilding;
+  const missingCode = linked.filter((img) => !img.code);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-slate-900 flex items-center">
+          <Workflow className="h-4 w-4 mr-2" />
+          Screen Flow
+        </label>
+        {unlinked.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onChange({ ...flow, screenIds: [...flow.screenIds, e.target.value] })}
+            disabled={isLocked}
+            className="px-2 py-1 border border-slate-300 rounded text-xs bg-white disabled:opacity-50"
+            aria-label="Link a screen"
+          >
+            <option value="">Link a screen...</option>
+            {unlinked.map((img) => (
+              <option key={img.id} value={img.id}>{img.file.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {linked.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          Link the images of a flow (login, dashboard, settings) in order to generate one app that navigates between them
+        </p>
+      ) : (
+        <ol className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {linked.map((img, i) => (
+            <li key={img.id} className="flex items-center gap-2 px-3 py-2">
+              <span className="text-xs text-slate-400 w-4">{i + 1}</span>
+              <img src={img.preview} alt="" className="h-8 w-12 object-cover rounded border border-slate-200" />
+              <span className="flex-1 min-w-0 text-sm text-slate-800 truncate">{img.file.name}</span>
+              {i === 0 && <span className="text-xs px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">Start</span>}
+              {sharedLayout?.screens.some((screen) => screen.id === img.id) && (
+                <span className="text-xs px-1.5 py-0.5 rounded bg-purple-50 text-purple-700">Layout</span>
+              )}
+              {!img.code && (
+                <span title="Generate code for this screen first">
+                  <AlertTriangle className="h-3 w-3 text-amber-500" />
+                </span>
+              )}
+              <button
+                onClick={() => onChange(moveFlowScreen(flow, img.id, -1))}
+                disabled={isLocked || i === 0}
+                className="p-1 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => onChange(moveFlowScreen(flow, img.id, 1))}
+                disabled={isLocked || i === linked.length - 1}
+                className="p-1 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => onChange(removeFlowScreen(flow, img.id))}
+                disabled={isLocked}
+                className="p-1 text-red-500 hover:text-red-700 hover:bg-slate-100 rounded disabled:opacity-30"
+                title="Unlink"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {linked.length >= 2 && (
+        <>
+          <div className="space-y-1">
+            <span className="block text-xs font-medium text-slate-700">Transitions</span>
+            {flow.transitions.length === 0 && (
+              <p className="text-xs text-slate-400">Add what takes the user from one screen to the next</p>
+            )}
+            {flow.transitions.map((transition) => (
+              <div key={transition.id} className="flex items-center gap-1 text-xs text-slate-700">
+                <span className="truncate max-w-[8rem]" title={nameOf(transition.fromImageId)}>{nameOf(transition.fromImageId)}</span>
+                <span className="text-slate-500 truncate">"{transition.trigger}"</span>
+                <ArrowRight className="h-3 w-3 flex-shrink-0 text-slate-400" />
+                <span className="flex-1 truncate" title={nameOf(transition.toImageId)}>{nameOf(transition.toImageId)}</span>
+                <button
+                  onClick={() => onChange({ ...flow, transitions: flow.transitions.filter((t) => t.id !== transition.id) })}
+                  disabled={isLocked}
+                  className="p-1 text-red-500 hover:text-red-700 hover:bg-slate-100 rounded disabled:opacity-30"
+                  title="Remove transition"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center gap-1">
+              <select
+                value={fromId}
+                onChange={(e) => setFromId(e.target.value)}
+                className="w-1/4 px-1 py-1 border border-slate-300 rounded text-xs bg-white"
+                aria-label="From screen"
+              >
+                <option value="">From...</option>
+                {linked.map((img) => <option key={img.id} value={img.id}>{img.file.name}</option>)}
+              </select>
+              <input
+                value={trigger}
+                onChange={(e) => setTrigger(e.target.value)}
+                list="screen-flow-triggers"
+                placeholder="Submit button"
+                className="flex-1 min-w-0 px-2 py-1 border border-slate-300 rounded text-xs"
+                aria-label="Trigger"
+              />
+              <datalist id="screen-flow-triggers">
+                {triggerSuggestions.map((suggestion) => <option key={suggestion} value={suggestion} />)}
+              </datalist>
+              <select
+                value={toId}
+                onChange={(e) => setToId(e.target.value)}
+                className="w-1/4 px-1 py-1 border border-slate-300 rounded text-xs bg-white"
+                aria-label="To screen"
+              >
+                <option value="">To...</option>
+                {linked.filter((img) => img.id !== fromId).map((img) => <option key={img.id} value={img.id}>{img.file.name}</option>)}
+              </select>
+              <button
+                onClick={addTransition}
+                disabled={isLocked || !fromId || !toId || fromId === toId || !trigger.trim() || !flow.screenIds.includes(fromId) || !flow.screenIds.includes(toId)}
+                className="p-1 text-blue-600 hover:text-blue-700 hover:bg-slate-100 rounded disabled:opacity-30"
+                title="Add transition"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {sharedLayout
+              ? `Shared layout: ${sharedLayout.nodes.map((node) => UI_NODE_LABELS[node.type]).join(', ')}, generated once for ${sharedLayout.screens.length} screens`
+              : 'No app bar, sidebar or tab bar is shared between the linked screens'}
+          </p>
+
+          <div className="flex items-center gap-3">
+            {isBuilding ? (
+              <button
+                onClick={onStop}
+                className="flex items-center px-3 py-1.5 rounded-lg bg-red-500 text-white text-sm font-medium hover:bg-red-600 transition-colors"
+              >
+                <Square className="h-4 w-4 mr-1" />
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={onGenerateApp}
+                disabled={disabled || missingCode.length > 0}
+                className="flex items-center px-3 py-1.5 rounded-lg bg-blue-500 text-white text-sm font-medium hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title={missingCode.length > 0 ? `Generate code for ${missingCode.map((img) => img.file.name).join(', ')} first` : 'Download the linked screens as one routed app'}
+              >
+                <Play className="h-4 w-4 mr-1" />
+                Generate app
+              </button>
+            )}
+            {isBuilding && (
+              <span className="flex items-center text-xs text-blue-600 min-w-0">
+                <Loader2 className="h-3 w-3 mr-1 flex-shrink-0 animate-spin" />
+                <span className="truncate">{status}</span>
+              </span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScreenFlowEditor;
@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import Editor, { DiffEditor } from '@monaco-editor/react';
+import { AlertTriangle, Boxes, Package, X } from 'lucide-react';
+import {
+  extractSharedComponents,
+  findSharedComponents,
+  renderSharedComponent,
+  type ExtractionScreen,
+  type SharedComponentFile,
+} from '../services/sharedComponents';
+
+interface SharedComponentsDialogProps {
+  screens: ExtractionScreen[];
+  // Receives the component files and the screens rewritten to import them
+  onExport: (result: { components: SharedComponentFile[]; screens: ExtractionScreen[] }) => void;
+  onClose: () => void;
+}
+
+const EDITOR_OPTIONS = {
+  readOnly: true,
+  minimap: { enabled: false },
+  fontSize: 13,
+  scrollBeyondLastLine: false,
+  automaticLayout: true,
+  wordWrap: 'on' as const,
+};
+
+const SharedComponentsDialog: React.FC<SharedComponentsDialogProps> = ({
+  screens,
+  onExport,
+  onClose
+}) => {
+  const analysis = useMemo(() => findSharedComponents(screens), [screens]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [activeId, setActiveId] = useState(analysis.proposals[0]?.id);
+  const [view, setView] = useState<'component' | 'screen'>('component');
+  const [screenId, setScreenId] = useState(screens[0]?.id);
+
+  const active = analysis.proposals.find((proposal) => proposal.id === activeId);
+
+  // Invalid or clashing names surface here instead of failing the export
+  const { chosen, result, error } = useMemo(() => {
+    const chosen = analysis.proposals
+      .filter((proposal) => !excluded.has(proposal.id))
+      .map((proposal) => ({ ...proposal, name: names[proposal.id] ?? proposal.name }));
+    try {
+      return { chosen, result: extractSharedComponents(screens, chosen), error: null };
+    } catch (err) {
+      return { chosen, result: null, error: err instanceof Error ? err.message : 'Extraction failed' };
+    }
+  }, [screens, analysis, excluded, names]);
+
+  const originalScreen = screens.find((screen) => screen.id === screenId);
+  const rewrittenScreen = result?.screens.find((screen) => screen.id === screenId);
+  const screenName = (id: string) => screens.find((screen) => screen.id === id)?.name ?? id;
+
+  const toggle = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl flex flex-col max-h-full">
+        <div className="bg-gradient-to-r from-purple-500 to-purple-600 px-6 py-4 rounded-t-xl flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <Boxes className="h-5 w-5 mr-2" />
+            Shared Components
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-white hover:bg-purple-700 transition-colors"
+            title="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="px-6 pt-4 text-sm text-slate-600">
+          JSX repeated across the screens, with the parts that differ turned into props. The editor keeps each screen
+          self-contained so the preview keeps working; the chosen components are written to the exported project.
+        </p>
+        {analysis.unparsed.length > 0 && (
+          <p className="px-6 pt-2 text-sm text-amber-700 flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            Left out because the code does not parse: {analysis.unparsed.join(', ')}
+          </p>
+        )}
+
+        {analysis.proposals.length === 0 ? (
+          <p className="px-6 py-10 text-center text-sm text-slate-400">
+            No repeated JSX was found; components need at least three elements in common
+          </p>
+        ) : (
+          <div className="p-6 flex gap-4 min-h-0">
+            <ul className="w-72 flex-shrink-0 max-h-[60vh] overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+              {analysis.proposals.map((proposal) => (
+                <li
+                  key={proposal.id}
+                  onClick={() => {
+                    setActiveId(proposal.id);
+                    setView('component');
+                  }}
+                  className={`px-3 py-2 cursor-pointer ${proposal.id === active?.id ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!excluded.has(proposal.id)}
+                      onChange={() => toggle(proposal.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      aria-label={`Extract ${proposal.name}`}
+                    />
+                    <input
+                      value={names[proposal.id] ?? proposal.name}
+                      onChange={(e) => setNames({ ...names, [proposal.id]: e.target.value })}
+                      className="flex-1 min-w-0 px-2 py-1 border border-slate-300 rounded text-sm font-mono"
+                      aria-label="Component name"
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {proposal.occurrences.length} copies of &lt;{proposal.tagName}&gt; · {proposal.elementCount} elements
+                  </p>
+                  <p className="text-xs text-slate-400 truncate" title={proposal.propNames.join(', ')}>
+                    {proposal.propNames.length > 0 ? `Props: ${proposal.propNames.join(', ')}` : 'No props'}
+                  </p>
+                  <p className="text-xs text-slate-400 truncate">
+                    {[...new Set(proposal.occurrences.map((occurrence) => screenName(occurrence.screenId)))].join(', ')}
+                  </p>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex-1 min-w-0 flex flex-col border border-slate-300 rounded-lg overflow-hidden">
+              <div className="flex items-center gap-2 px-3 py-2 bg-slate-50 border-b border-slate-200 text-sm">
+                <button
+                  onClick={() => setView('component')}
+                  className={`px-2 py-1 rounded ${view === 'component' ? 'bg-white shadow-sm font-medium' : 'text-slate-600'}`}
+                >
+                  Component
+                </button>
+                <button
+                  onClick={() => setView('screen')}
+                  className={`px-2 py-1 rounded ${view === 'screen' ? 'bg-white shadow-sm font-medium' : 'text-slate-600'}`}
+                >
+                  Screen changes
+                </button>
+                {view === 'screen' && (
+                  <select
+                    value={screenId}
+                    onChange={(e) => setScreenId(e.target.value)}
+                    className="ml-auto px-2 py-1 border border-slate-300 rounded text-xs bg-white"
+                    aria-label="Screen"
+                  >
+                    {screens.map((screen) => <option key={screen.id} value={screen.id}>{screen.name}</option>)}
+                  </select>
+                )}
+              </div>
+              {view === 'component' && active ? (
+                <Editor
+                  height="55vh"
+                  language="javascript"
+                  value={renderSharedComponent(active, names[active.id] ?? active.name)}
+                  theme="vs-light"
+                  options={EDITOR_OPTIONS}
+                />
+              ) : view === 'screen' && originalScreen && rewrittenScreen ? (
+                <DiffEditor
+                  height="55vh"
+                  language="javascript"
+                  original={originalScreen.code}
+                  modified={rewrittenScreen.code}
+                  theme="vs-light"
+                  options={{ ...EDITOR_OPTIONS, renderSideBySide: true }}
+                />
+              ) : (
+                <p className="p-6 text-sm text-slate-400">{error ?? 'Nothing to show'}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="px-6 pb-6 flex items-center justify-end gap-3">
+          {error && (
+            <span className="mr-auto text-sm text-red-600 flex items-center">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              {error}
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg font-medium border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => result && onExport(result)}
+            disabled={!result || chosen.length === 0}
+            className="bg-gradient-to-r from-green-500 to-green-600 text-white px-4 py-2 rounded-lg font-medium hover:from-green-600 hover:to-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center"
+          >
+            <Package className="h-4 w-4 mr-2" />
+            Export project with {chosen.length} component{chosen.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedComponentsDialog;
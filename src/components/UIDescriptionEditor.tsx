@@ -1,19 +1,65 @@
-import React from 'react';
-import { FileText, Loader2, Wand2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Braces, FileText, Loader2, RotateCcw, Wand2 } from 'lucide-react';
+import { ANALYSIS_STAGE_LABELS, type AnalysisProgress } from '../analysis/protocol';
+import { parseUIDescription, serializeUIDescription, type UIDescriptionTree } from '../services/uiSchema';
 
 interface UIDescriptionEditorProps {
   imageId: string;
   description: string;
   onChange: (imageId: string, description: string) => void;
+  tree: UIDescriptionTree | null;
+  onTreeChange: (imageId: string, tree: UIDescriptionTree) => void;
+  // The prose was edited by hand and no longer follows the tree
+  isEdited: boolean;
+  onReset: (imageId: string) => void;
   isGenerating: boolean;
+  // Set while the design image is being analyzed ahead of description
+  analysisProgress?: AnalysisProgress | null;
 }
 
+type DescriptionView = 'prose' | 'structure';
+
+const MAX_SHOWN_ERRORS = 5;
+
 const UIDescriptionEditor: React.FC<UIDescriptionEditorProps> = ({
   imageId,
   description,
   onChange,
-  isGenerating
+  tree,
+  onTreeChange,
+  isEdited,
+  onReset,
+  isGenerating,
+  analysisProgress
 }) => {
+  const [view, setView] = useState<DescriptionView>('prose');
+  // Invalid JSON stays in the draft without touching the tree until it validates
+  const [draft, setDraft] = useState(tree ? serializeUIDescription(tree) : '');
+  const [errors, setErrors] = useState<string[]>([]);
+  // The last tree this editor produced, so its own edits don't reformat the draft mid-typing
+  const emittedTree = useRef<UIDescriptionTree | null>(null);
+
+  useEffect(() => {
+    if (tree && tree === emittedTree.current) return;
+    setDraft(tree ? serializeUIDescription(tree) : '');
+    setErrors([]);
+  }, [tree, imageId]);
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    const result = parseUIDescription(value);
+    setErrors(result.errors);
+    if (result.tree) {
+      emittedTree.current = result.tree;
+      onTreeChange(imageId, result.tree);
+    }
+  };
+
+  const tabClass = (tab: DescriptionView) =>
+    `px-2 py-1 rounded text-xs font-medium transition-colors flex items-center ${
+      view === tab ? 'bg-blue-100 text-blue-700' : 'text-slate-600 hover:bg-slate-100'
+    }`;
+
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
@@ -21,23 +67,57 @@ const UIDescriptionEditor: React.FC<UIDescriptionEditorProps> = ({
           <FileText className="h-4 w-4 mr-2" />
           UI Description
         </label>
-        {isGenerating && (
+        {isGenerating ? (
           <div className="flex items-center text-sm text-blue-600">
             <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-            Generating...
+            {analysisProgress
+              ? `${ANALYSIS_STAGE_LABELS[analysisProgress.stage]} ${Math.round(analysisProgress.progress * 100)}%`
+              : 'Generating...'}
+          </div>
+        ) : tree && (
+          <div className="flex items-center gap-1">
+            <button onClick={() => setView('prose')} className={tabClass('prose')}>
+              <FileText className="h-3 w-3 mr-1" />
+              Prose
+            </button>
+            <button onClick={() => setView('structure')} className={tabClass('structure')}>
+              <Braces className="h-3 w-3 mr-1" />
+              Structure
+            </button>
           </div>
         )}
       </div>
-      
+
+      {analysisProgress && (
+        <div className="h-1 bg-slate-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-500 transition-all duration-300"
+            style={{ width: `${Math.round(analysisProgress.progress * 100)}%` }}
+          />
+        </div>
+      )}
+
       <div className="relative">
-        <textarea
-          value={description}
-          onChange={(e) => onChange(imageId, e.target.value)}
-          placeholder="AI will automatically generate a detailed description of your uploaded image. You can edit it here to refine the output..."
-          className="w-full h-32 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
-          disabled={isGenerating}
-        />
-        
+        {view === 'structure' && tree ? (
+          <textarea
+            value={draft}
+            onChange={(e) => handleDraftChange(e.target.value)}
+            spellCheck={false}
+            className={`w-full h-64 px-3 py-2 border rounded-lg focus:ring-2 focus:border-transparent resize-y text-xs font-mono ${
+              errors.length > 0 ? 'border-red-400 focus:ring-red-500' : 'border-slate-300 focus:ring-blue-500'
+            }`}
+            disabled={isGenerating}
+          />
+        ) : (
+          <textarea
+            value={description}
+            onChange={(e) => onChange(imageId, e.target.value)}
+            placeholder="AI will automatically generate a detailed description of your uploaded image. You can edit it here to refine the output..."
+            className="w-full h-32 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm"
+            disabled={isGenerating}
+          />
+        )}
+
         {!description && !isGenerating && (
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
             <div className="text-center text-slate-400">
@@ -47,13 +127,45 @@ const UIDescriptionEditor: React.FC<UIDescriptionEditorProps> = ({
           </div>
         )}
       </div>
-      
+
+      {view === 'structure' && errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-1">
+          {errors.slice(0, MAX_SHOWN_ERRORS).map((error) => (
+            <li key={error} className="flex items-start">
+              <AlertCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+              {error}
+            </li>
+          ))}
+          {errors.length > MAX_SHOWN_ERRORS && <li>...and {errors.length - MAX_SHOWN_ERRORS} more</li>}
+        </ul>
+      )}
+
       <div className="flex justify-between text-xs text-slate-500">
-        <span>{description.length} characters</span>
-        <span>AI-generated descriptions are editable</span>
+        {view === 'structure' && tree ? (
+          <>
+            <span>{errors.length > 0 ? 'Not applied until the JSON is valid' : 'Validated against the UI schema'}</span>
+            <span>Edits update the component tree</span>
+          </>
+        ) : (
+          <>
+            <span>{description.length} characters</span>
+            {isEdited && tree ? (
+              <button
+                onClick={() => onReset(imageId)}
+                className="flex items-center text-slate-600 hover:text-slate-900 transition-colors"
+                title="Discard prose edits and render it from the component tree again"
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Reset to tree
+              </button>
+            ) : (
+              <span>{tree ? 'Prose edits are sent as notes with the tree' : 'AI-generated descriptions are editable'}</span>
+            )}
+          </>
+        )}
       </div>
     </div>
   );
 };
 
-export default UIDescriptionEditor;
\ No newline at end of file
+export default UIDescriptionEditor;
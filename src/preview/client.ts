@@ -0,0 +1,81 @@
+import type { ThemeOptions } from '@mui/material/styles';
+import { isPreviewRuntimeEvent, type PreviewRequest, type PreviewRuntimeEvent } from './protocol';
+
+// Rendering, fonts and image loads all happen before the capture is answered
+const CAPTURE_TIMEOUT_MS = 30000;
+
+let previewDocumentPromise: Promise<string> | null = null;
+
+// The runtime page is fetched once and injected as srcdoc; its scripts resolve against the app's URL but,
+// sandboxed without allow-same-origin, run under an opaque origin and are loaded with CORS
+export const loadPreviewDocument = (): Promise<string> => {
+  if (!previewDocumentPromise) {
+    previewDocumentPromise = fetch(`${import.meta.env.BASE_URL}preview.html`).then((response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to load the local preview runtime (${response.status})`);
+      }
+      return response.text();
+    });
+    previewDocumentPromise.catch(() => {
+      previewDocumentPromise = null;
+    });
+  }
+  return previewDocumentPromise;
+};
+
+export const postToPreview = (target: Window, request: PreviewRequest) => target.postMessage(request, '*');
+
+// Renders a compiled module in an off-screen runtime sized exactly width x height and returns a PNG data URL
+export const captureComponent = async (
+  compiledModule: string,
+  width: number,
+  height: number,
+  theme?: ThemeOptions
+): Promise<string> => {
+  const srcDoc = await loadPreviewDocument();
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.style.cssText = `position:fixed;left:-100000px;top:0;width:${width}px;height:${height}px;border:0;`;
+
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      const finish = () => {
+        window.clearTimeout(timeout);
+        window.removeEventListener('message', handleMessage);
+      };
+      const timeout = window.setTimeout(() => {
+        finish();
+        reject(new Error('Timed out capturing the preview'));
+      }, CAPTURE_TIMEOUT_MS);
+      const handleMessage = (event: MessageEvent) => {
+        const target = iframe.contentWindow;
+        if (!target || event.source !== target || !isPreviewRuntimeEvent(event.data)) {
+          return;
+        }
+        const message: PreviewRuntimeEvent = event.data;
+        switch (message.type) {
+          case 'preview:ready':
+            postToPreview(target, { type: 'preview:render', code: compiledModule, theme });
+            break;
+          case 'preview:rendered':
+            postToPreview(target, { type: 'preview:capture', width, height });
+            break;
+          case 'preview:captured':
+            finish();
+            resolve(message.dataUrl);
+            break;
+          case 'preview:error':
+            finish();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+      window.addEventListener('message', handleMessage);
+      iframe.srcdoc = srcDoc;
+      document.body.appendChild(iframe);
+    });
+  } finally {
+    iframe.remove();
+  }
+};
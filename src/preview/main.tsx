@@ -0,0 +1,160 @@
+import React from 'react';
+import * as JSXRuntime from 'react/jsx-runtime';
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import * as Material from '@mui/material';
+import * as MuiSystem from '@mui/system';
+import * as EmotionReact from '@emotion/react';
+import EmotionStyled from '@emotion/styled';
+import * as Formik from 'formik';
+import * as Yup from 'yup';
+import type { PreviewRequest, PreviewRuntimeEvent } from './protocol';
+
+type ModuleExports = Record<string, unknown>;
+
+const asModule = (exports: object, defaultExport: unknown = exports): ModuleExports =>
+  ({ ...exports, default: defaultExport, __esModule: true });
+
+const MODULES: Record<string, ModuleExports> = {
+  'react': asModule(React),
+  'react/jsx-runtime': asModule(JSXRuntime),
+  'react-dom': asModule(ReactDOM),
+  'react-dom/client': asModule(ReactDOMClient),
+  '@mui/material': asModule(Material),
+  '@mui/material/styles': asModule(Material),
+  '@emotion/react': asModule(EmotionReact),
+  '@emotion/styled': asModule(EmotionStyled, EmotionStyled),
+  '@mui/system': asModule(MuiSystem),
+  'formik': asModule(Formik),
+  'yup': asModule(Yup),
+};
+
+// Time given to effects and image loads before a capture is taken
+const CAPTURE_SETTLE_MS = 500;
+// Stand-in for cross-origin images the snapshot cannot inline
+const TRANSPARENT_PIXEL = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
+
+const root = ReactDOMClient.createRoot(document.getElementById('root')!);
+// Icons are a multi-megabyte namespace, so only load them for components that use them
+let iconsModule: ModuleExports | null = null;
+
+const post = (event: PreviewRuntimeEvent) => window.parent.postMessage(event, '*');
+
+const reportError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  post({ type: 'preview:error', message, stack: error instanceof Error ? error.stack : undefined });
+};
+
+const requireModule = (specifier: string): ModuleExports => {
+  if (MODULES[specifier]) {
+    return MODULES[specifier];
+  }
+  // Path imports such as '@mui/material/Button' or '@mui/icons-material/Search'
+  const [, scope, name] = specifier.match(/^(@mui\/material|@mui\/icons-material)\/(\w+)$/) ?? [];
+  if (scope === '@mui/material' && name in Material) {
+    return asModule({}, (Material as ModuleExports)[name]);
+  }
+  if (scope === '@mui/icons-material' && iconsModule && name in iconsModule) {
+    return asModule({}, iconsModule[name]);
+  }
+  if (specifier === '@mui/icons-material' && iconsModule) {
+    return iconsModule;
+  }
+  throw new Error(`Module "${specifier}" is not available in the local preview`);
+};
+
+const evaluateComponent = (code: string): React.ComponentType => {
+  const module = { exports: {} as ModuleExports };
+  new Function('require', 'module', 'exports', code)(requireModule, module, module.exports);
+  const component = module.exports.default;
+  if (typeof component !== 'function' && typeof component !== 'object') {
+    throw new Error('The component module has no default export to render');
+  }
+  return component as React.ComponentType;
+};
+
+interface PreviewErrorBoundaryProps {
+  children: React.ReactNode;
+}
+
+interface PreviewErrorBoundaryState {
+  error: Error | null;
+}
+
+class PreviewErrorBoundary extends React.Component<PreviewErrorBoundaryProps, PreviewErrorBoundaryState> {
+  state: PreviewErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): PreviewErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error) {
+    reportError(error);
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <pre style={{ margin: 16, padding: 16, color: '#b91c1c', background: '#fef2f2', whiteSpace: 'pre-wrap' }}>
+          {this.state.error.message}
+        </pre>
+      );
+    }
+    return this.props.children;
+  }
+}
+
+let renderCount = 0;
+
+const render = async (code: string, themeOptions?: Material.ThemeOptions) => {
+  try {
+    if (!iconsModule && code.includes('require("@mui/icons-material')) {
+      iconsModule = asModule(await import('@mui/icons-material'));
+    }
+    const Component = evaluateComponent(code);
+    renderCount += 1;
+    root.render(
+      <Material.ThemeProvider theme={Material.createTheme(themeOptions)}>
+        <Material.CssBaseline />
+        {/* A fresh key resets the boundary and component state for every new module */}
+        <PreviewErrorBoundary key={renderCount}>
+          <Component />
+        </PreviewErrorBoundary>
+      </Material.ThemeProvider>
+    );
+    post({ type: 'preview:rendered' });
+  } catch (error) {
+    reportError(error);
+  }
+};
+
+const capture = async (width: number, height: number) => {
+  try {
+    const { toPng } = await import('html-to-image');
+    await document.fonts.ready;
+    await new Promise((resolve) => setTimeout(resolve, CAPTURE_SETTLE_MS));
+    const dataUrl = await toPng(document.body, {
+      width,
+      height,
+      pixelRatio: 1,
+      backgroundColor: '#ffffff',
+      imagePlaceholder: TRANSPARENT_PIXEL,
+    });
+    post({ type: 'preview:captured', dataUrl });
+  } catch (error) {
+    reportError(error);
+  }
+};
+
+window.addEventListener('message', (event: MessageEvent<PreviewRequest>) => {
+  if (event.source !== window.parent) return;
+  if (event.data?.type === 'preview:render') {
+    render(event.data.code, event.data.theme);
+  } else if (event.data?.type === 'preview:capture') {
+    capture(event.data.width, event.data.height);
+  }
+});
+window.addEventListener('error', (event) => reportError(event.error ?? event.message));
+window.addEventListener('unhandledrejection', (event) => reportError(event.reason));
+
+post({ type: 'preview:ready' });
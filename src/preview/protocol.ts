@@ -0,0 +1,30 @@
+import type { ThemeOptions } from '@mui/material/styles';
+
+// Messages exchanged between LivePreview and the local preview runtime (preview.html)
+
+export interface PreviewRenderRequest {
+  type: 'preview:render';
+  // CommonJS module produced by compileComponent
+  code: string;
+  // Options for the ThemeProvider around the component, built from the design's palette and tokens
+  theme?: ThemeOptions;
+}
+
+export interface PreviewCaptureRequest {
+  type: 'preview:capture';
+  width: number;
+  height: number;
+}
+
+export type PreviewRequest = PreviewRenderRequest | PreviewCaptureRequest;
+
+export type PreviewRuntimeEvent =
+  | { type: 'preview:ready' }
+  | { type: 'preview:rendered' }
+  | { type: 'preview:captured'; dataUrl: string }
+  | { type: 'preview:error'; message: string; stack?: string };
+
+export const isPreviewRuntimeEvent = (data: unknown): data is PreviewRuntimeEvent =>
+  typeof data === 'object' && data !== null &&
+  typeof (data as { type?: unknown }).type === 'string' &&
+  (data as { type: string }).type.startsWith('preview:');
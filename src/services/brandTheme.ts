@@ -0,0 +1,575 @@
+import * as t from '@babel/types';
+import type { CodeFormat } from './codeGenerationProvider';
+import { parseComponentCode, traverse, type CodeDiagnostic } from './codeValidation';
+import { extractDesignTokens, TOKEN_SIZES, TYPE_ROLES, type DesignTokens, type TokenSize, type TypeRole } from './designTokens';
+import type { DesignPalette, PaletteRole } from './paletteExtraction';
+
+export type BrandTokenCategory = 'color' | 'fontSize' | 'fontFamily' | 'fontWeight' | 'spacing' | 'radius' | 'shadow';
+
+export interface BrandToken {
+  // Dotted path in the source file, e.g. 'color.brand.primary' or 'palette.primary.main'
+  path: string;
+  category: BrandTokenCategory;
+  // Colors as lowercase #rrggbb(aa), sizes as '<n>px'
+  value: string;
+}
+
+export type BrandThemeFormat = 'w3c' | 'style-dictionary' | 'mui';
+
+// A company token file or MUI theme, uploaded once per project to keep every screen on brand
+export interface BrandTheme {
+  fileName: string;
+  format: BrandThemeFormat;
+  tokens: BrandToken[];
+}
+
+export const BRAND_THEME_FORMAT_LABELS: Record<BrandThemeFormat, string> = {
+  'w3c': 'W3C design tokens',
+  'style-dictionary': 'Style Dictionary',
+  'mui': 'MUI theme',
+};
+
+const CATEGORY_LABELS: Record<BrandTokenCategory, string> = {
+  color: 'Colors',
+  fontSize: 'Font sizes',
+  fontFamily: 'Font families',
+  fontWeight: 'Font weights',
+  spacing: 'Spacing',
+  radius: 'Corner radii',
+  shadow: 'Shadows',
+};
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as BrandTokenCategory[];
+
+// rem and em are resolved against the browser default
+const ROOT_FONT_SIZE = 16;
+// Keeps the prompt readable for token files with whole color ramps
+const MAX_PROMPT_TOKENS_PER_CATEGORY = 60;
+const MAX_ALIAS_DEPTH = 10;
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+type JsonObject = { [key: string]: JsonValue };
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toHexByte = (value: number): string => Math.max(0, Math.min(255, Math.round(value))).toString(16).padStart(2, '0');
+
+// '#abc', '#aabbcc', '#aabbccdd' and rgb()/rgba() as lowercase hex; null for anything else
+export const normalizeColor = (value: string): string | null => {
+  const hex = value.trim().match(/^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? [...hex[1]].map((digit) => digit + digit).join('') : hex[1];
+    return `#${digits.toLowerCase().replace(/^([0-9a-f]{6})ff$/, '$1')}`;
+  }
+  const rgb = value.trim().match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i);
+  if (!rgb) return null;
+  const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : Number(rgb[4]);
+  return `#${[rgb[1], rgb[2], rgb[3]].map((channel) => toHexByte(Number(channel))).join('')}${alpha < 1 ? toHexByte(alpha * 255) : ''}`;
+};
+
+// Numbers are px; W3C dimensions may also be { value, unit }
+const toPixels = (value: unknown): number | null => {
+  if (typeof value === 'number') return value;
+  if (isObject(value) && typeof value.value === 'number') return toPixels(`${value.value}${value.unit ?? 'px'}`);
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(-?[\d.]+)(px|rem|em)?$/);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  return match[2] === 'rem' || match[2] === 'em' ? amount * ROOT_FONT_SIZE : amount;
+};
+
+const formatPixels = (pixels: number): string => `${Math.round(pixels * 100) / 100}px`;
+
+// W3C shadows are objects or lists of them; Style Dictionary usually already has CSS
+const toCssShadow = (value: unknown): string | null => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    const layers = value.map(toCssShadow);
+    return layers.every(Boolean) ? layers.join(', ') : null;
+  }
+  if (!isObject(value)) return null;
+  const lengths = [value.offsetX, value.offsetY, value.blur, value.spread].map((length) => toPixels(length ?? 0));
+  return `${lengths.map((length) => formatPixels(length ?? 0)).join(' ')} ${typeof value.color === 'string' ? value.color : 'rgba(0, 0, 0, 0.2)'}`;
+};
+
+// Style Dictionary files often have no types, so the category is read from the token path.
+// Spacing keywords go before the looser typography ones so 'space.inline.sm' stays spacing.
+const categoryFromPath = (path: string): BrandTokenCategory | null => {
+  const lower = path.toLowerCase();
+  if (/weight/.test(lower)) return 'fontWeight';
+  if (/family|typeface/.test(lower)) return 'fontFamily';
+  if (/shadow|elevation/.test(lower)) return 'shadow';
+  if (/radius|radii|rounded|corner/.test(lower)) return 'radius';
+  if (/space|spacing|gap|padding|margin|inset|inline|stack|gutter/.test(lower)) return 'spacing';
+  if (/font|text|type/.test(lower)) return 'fontSize';
+  if (/size|dimension/.test(lower)) return 'spacing';
+  if (/colou?r|palette|brand|background|foreground|surface|border/.test(lower)) return 'color';
+  return null;
+};
+
+// Line heights and letter spacing are ratios or tracking, not font sizes or spacing
+const isUnsupportedPath = (path: string): boolean => /line-?height|leading|letter-?spacing|tracking/i.test(path);
+
+// Token types the files declare, mapped onto ours; dimensions are told apart by their path
+const inferCategory = (path: string, value: unknown, declaredType?: string): BrandTokenCategory | null => {
+  if (isUnsupportedPath(path)) return null;
+  switch (declaredType) {
+    case 'color':
+      return 'color';
+    case 'fontFamily':
+      return 'fontFamily';
+    case 'fontWeight':
+      return 'fontWeight';
+    case 'shadow':
+      return 'shadow';
+    case 'fontSize':
+    case 'fontSizes':
+      return 'fontSize';
+    case 'borderRadius':
+      return 'radius';
+    case 'spacing':
+      return 'spacing';
+    case 'dimension':
+    case 'size': {
+      const category = categoryFromPath(path);
+      return category === 'radius' || category === 'fontSize' ? category : 'spacing';
+    }
+  }
+  if (typeof value === 'string' && normalizeColor(value)) return 'color';
+  const category = categoryFromPath(path);
+  return category === 'color' && !(typeof value === 'string' && normalizeColor(value)) ? null : category;
+};
+
+const toToken = (path: string, category: BrandTokenCategory, value: unknown): BrandToken | null => {
+  switch (category) {
+    case 'color': {
+      const color = typeof value === 'string' ? normalizeColor(value) : null;
+      return color ? { path, category, value: color } : null;
+    }
+    case 'fontSize':
+    case 'spacing':
+    case 'radius': {
+      const pixels = toPixels(value);
+      return pixels !== null ? { path, category, value: formatPixels(pixels) } : null;
+    }
+    case 'fontFamily':
+      return typeof value === 'string' || Array.isArray(value)
+        ? { path, category, value: Array.isArray(value) ? value.join(', ') : value }
+        : null;
+    case 'fontWeight':
+      return typeof value === 'number' || typeof value === 'string' ? { path, category, value: String(value) } : null;
+    case 'shadow': {
+      const shadow = toCssShadow(value);
+      return shadow ? { path, category, value: shadow } : null;
+    }
+  }
+};
+
+// Composite typography tokens contribute their size, family and weight
+const expandToken = (path: string, value: unknown, declaredType?: string): BrandToken[] => {
+  if (declaredType === 'typography' && isObject(value)) {
+    return ([['fontSize', 'fontSize'], ['fontFamily', 'fontFamily'], ['fontWeight', 'fontWeight']] as const)
+      .flatMap(([key, category]) => (value[key] !== undefined ? [toToken(`${path}.${key}`, category, value[key])] : []))
+      .filter((token): token is BrandToken => !!token);
+  }
+  const category = inferCategory(path, value, declaredType);
+  const token = category && toToken(path, category, value);
+  return token ? [token] : [];
+};
+
+// Resolves '{color.base.blue}' references, including ones inside composite values
+const resolveAliases = (value: JsonValue, lookup: Map<string, JsonValue>, depth = 0): JsonValue => {
+  if (depth > MAX_ALIAS_DEPTH) {
+    throw new Error('Token aliases are nested too deeply or circular');
+  }
+  if (typeof value === 'string') {
+    const alias = value.match(/^\{([^}]+)\}$/);
+    if (alias) {
+      const target = lookup.get(alias[1]);
+      if (target === undefined) throw new Error(`Token alias {${alias[1]}} points to no token`);
+      return resolveAliases(target, lookup, depth + 1);
+    }
+    return value;
+  }
+  if (Array.isArray(value)) return value.map((item) => resolveAliases(item, lookup, depth + 1));
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveAliases(item, lookup, depth + 1)]));
+  }
+  return value;
+};
+
+// W3C uses $value/$type with types inherited from groups; Style Dictionary uses value/type
+const flattenTokenTree = (root: JsonObject, valueKey: '$value' | 'value', typeKey: '$type' | 'type'): BrandToken[] => {
+  const entries: Array<{ path: string; value: JsonValue; type?: string }> = [];
+  const walk = (node: JsonObject, path: string[], inheritedType?: string) => {
+    const type = typeof node[typeKey] === 'string' ? (node[typeKey] as string) : inheritedType;
+    if (valueKey in node) {
+      entries.push({ path: path.join('.'), value: node[valueKey], type });
+      return;
+    }
+    Object.entries(node).forEach(([key, child]) => {
+      if (!key.startsWith('$') && isObject(child)) walk(child, [...path, key], type);
+    });
+  };
+  walk(root, []);
+  const lookup = new Map(entries.map((entry) => [entry.path, entry.value]));
+  return entries.flatMap((entry) => expandToken(entry.path, resolveAliases(entry.value, lookup), entry.type));
+};
+
+const MUI_TYPOGRAPHY_VARIANTS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'subtitle1', 'subtitle2', 'body1', 'body2', 'button', 'caption', 'overline'];
+
+const flattenMuiTheme = (theme: JsonObject): BrandToken[] => {
+  const tokens: BrandToken[] = [];
+  const push = (path: string, category: BrandTokenCategory, value: unknown) => {
+    const token = toToken(path, category, value);
+    if (token) tokens.push(token);
+  };
+  const walkPalette = (node: JsonValue, path: string) => {
+    if (typeof node === 'string') push(path, 'color', node);
+    else if (isObject(node)) Object.entries(node).forEach(([key, child]) => walkPalette(child, `${path}.${key}`));
+  };
+  if (isObject(theme.palette)) walkPalette(theme.palette, 'palette');
+  const typography = isObject(theme.typography) ? theme.typography : {};
+  if (typography.fontFamily !== undefined) push('typography.fontFamily', 'fontFamily', typography.fontFamily);
+  if (typography.fontSize !== undefined) push('typography.fontSize', 'fontSize', typography.fontSize);
+  MUI_TYPOGRAPHY_VARIANTS.forEach((variant) => {
+    const style = typography[variant];
+    if (!isObject(style)) return;
+    if (style.fontSize !== undefined) push(`typography.${variant}.fontSize`, 'fontSize', style.fontSize);
+    if (style.fontWeight !== undefined) push(`typography.${variant}.fontWeight`, 'fontWeight', style.fontWeight);
+    if (style.fontFamily !== undefined) push(`typography.${variant}.fontFamily`, 'fontFamily', style.fontFamily);
+  });
+  if (typeof theme.spacing === 'number') push('spacing', 'spacing', theme.spacing);
+  if (isObject(theme.shape) && theme.shape.borderRadius !== undefined) push('shape.borderRadius', 'radius', theme.shape.borderRadius);
+  if (Array.isArray(theme.shadows)) {
+    theme.shadows.forEach((shadow, elevation) => {
+      if (elevation > 0 && typeof shadow === 'string' && shadow !== 'none') push(`shadows.${elevation}`, 'shadow', shadow);
+    });
+  }
+  return tokens;
+};
+
+const hasKeyDeep = (node: JsonValue, key: string): boolean =>
+  isObject(node) && (key in node || Object.values(node).some((child) => hasKeyDeep(child, key)));
+
+// Plain values of an object literal; anything computed at runtime is left out
+const literalValue = (node: t.Node): JsonValue | undefined => {
+  if (t.isStringLiteral(node) || t.isNumericLiteral(node) || t.isBooleanLiteral(node)) return node.value;
+  if (t.isTemplateLiteral(node) && node.expressions.length === 0) return node.quasis[0].value.cooked ?? undefined;
+  if (t.isUnaryExpression(node, { operator: '-' }) && t.isNumericLiteral(node.argument)) return -node.argument.value;
+  if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) return literalValue(node.expression);
+  if (t.isArrayExpression(node)) {
+    return node.elements.flatMap((element) => {
+      const value = element && literalValue(element);
+      return value === undefined ? [] : [value];
+    });
+  }
+  if (t.isObjectExpression(node)) {
+    const entries = node.properties.flatMap((property) => {
+      if (!t.isObjectProperty(property) || property.computed) return [];
+      const key = t.isIdentifier(property.key) ? property.key.name : t.isStringLiteral(property.key) ? property.key.value : null;
+      const value = literalValue(property.value);
+      return key === null || value === undefined ? [] : [[key, value] as const];
+    });
+    return Object.fromEntries(entries);
+  }
+  return undefined;
+};
+
+// The argument of createTheme(...), or else the default export or the first top-level object
+const findThemeObject = (source: string): JsonObject | null => {
+  const ast = parseComponentCode(source);
+  let found: t.ObjectExpression | null = null;
+  let fallback: t.ObjectExpression | null = null;
+  traverse(ast, {
+    CallExpression(path) {
+      const callee = path.node.callee;
+      const name = t.isIdentifier(callee) ? callee.name : t.isMemberExpression(callee) && t.isIdentifier(callee.property) ? callee.property.name : '';
+      if (/^(createTheme|extendTheme|createMuiTheme)$/.test(name) && t.isObjectExpression(path.node.arguments[0])) {
+        found = path.node.arguments[0];
+        path.stop();
+      }
+    },
+    ExportDefaultDeclaration(path) {
+      if (t.isObjectExpression(path.node.declaration)) fallback = path.node.declaration;
+    },
+    VariableDeclarator(path) {
+      if (!fallback && path.parentPath.parentPath?.isProgram() && t.isObjectExpression(path.node.init)) fallback = path.node.init;
+    },
+  });
+  const theme = found ?? fallback;
+  const value = theme ? literalValue(theme) : undefined;
+  return isObject(value) ? value : null;
+};
+
+// Reads a W3C design-tokens or Style Dictionary JSON file, or an MUI theme as JSON or JS/TS source
+export const parseBrandTheme = (fileName: string, source: string): BrandTheme => {
+  let root: JsonObject | null = null;
+  try {
+    const parsed = JSON.parse(source);
+    root = isObject(parsed) ? parsed : null;
+  } catch {
+    try {
+      root = findThemeObject(source);
+    } catch {
+      throw new Error(`${fileName} is neither JSON nor JavaScript/TypeScript`);
+    }
+  }
+  if (!root) {
+    throw new Error(`${fileName} contains no token or theme object`);
+  }
+  const format: BrandThemeFormat | null = hasKeyDeep(root, '$value') ? 'w3c'
+    : hasKeyDeep(root, 'value') ? 'style-dictionary'
+    : ['palette', 'typography', 'shape', 'spacing'].some((key) => key in root!) ? 'mui'
+    : null;
+  if (!format) {
+    throw new Error(`${fileName} is not W3C design tokens ($value), Style Dictionary (value) or an MUI theme (palette, typography)`);
+  }
+  const tokens = format === 'w3c' ? flattenTokenTree(root, '$value', '$type')
+    : format === 'style-dictionary' ? flattenTokenTree(root, 'value', 'type')
+    : flattenMuiTheme(root);
+  if (tokens.length === 0) {
+    throw new Error(`${fileName} has no colors, sizes or fonts that could be read`);
+  }
+  return { fileName, format, tokens };
+};
+
+export const countBrandTokens = (theme: BrandTheme): Partial<Record<BrandTokenCategory, number>> =>
+  theme.tokens.reduce<Partial<Record<BrandTokenCategory, number>>>((counts, token) =>
+    ({ ...counts, [token.category]: (counts[token.category] ?? 0) + 1 }), {});
+
+const BRAND_USAGE: Record<CodeFormat, string> = {
+  'react-mui': `Build the theme with createTheme from these tokens (palette, typography, spacing, shape), wrap the component in ThemeProvider and reference theme values (sx keys such as 'primary.main', Typography variants, spacing units) instead of literals.`,
+  'react-native': `Declare the tokens once in a \`brand\` object keyed like the token paths and reference it from StyleSheet.create instead of repeating literals.`,
+  'flutter': `Declare the tokens once as static const members of a \`Brand\` class (Color(0xFF...) and double sizes), build ThemeData from them and reference Theme.of(context) or Brand instead of literals.`,
+};
+
+// Prompt section for the project's brand theme; replaces the design palette and tokens sections
+export const buildBrandThemeRequirements = (theme: BrandTheme, codeFormat: CodeFormat | string): string => {
+  const sections = CATEGORIES.flatMap((category) => {
+    const tokens = theme.tokens.filter((token) => token.category === category);
+    if (tokens.length === 0) return [];
+    const shown = tokens.slice(0, MAX_PROMPT_TOKENS_PER_CATEGORY);
+    return [`${CATEGORY_LABELS[category]}:
+${shown.map((token) => `- ${token.path}: ${token.value}`).join('\n')}${tokens.length > shown.length ? `\n- ...and ${tokens.length - shown.length} more` : ''}`];
+  });
+  return `BRAND TOKENS (the company's ${BRAND_THEME_FORMAT_LABELS[theme.format]} file ${theme.fileName}; MANDATORY, they take precedence over colors and sizes seen in the design):
+${sections.join('\n\n')}
+
+- Use ONLY these colors and font sizes; for each color or size in the design pick the closest brand token.
+- ${BRAND_USAGE[codeFormat as CodeFormat] ?? BRAND_USAGE['react-mui']}`;
+};
+
+// Paths that fill each palette role, and paths kept out of it such as 'palette.text.primary' for primary
+const PALETTE_ROLE_PATHS: Record<PaletteRole, [RegExp, RegExp | null]> = {
+  primary: [/primary|brand/, /text|foreground|contrast|on ?primary/],
+  secondary: [/secondary|accent/, /text|foreground|contrast|on ?secondary/],
+  background: [/background|canvas|\bbg\b/, /paper|surface|text|foreground/],
+  surface: [/surface|paper|card/, /text|foreground|on ?surface/],
+  text: [/text|foreground|ink|on ?background|on ?surface/, /disabled|secondary|inverse/],
+};
+
+const TYPE_ROLE_PATHS: Record<TypeRole, RegExp> = {
+  h1: /\bh1\b|heading ?1|display|headline ?(large|lg)/,
+  h2: /\bh2\b|heading ?2|headline ?(medium|md)/,
+  h3: /\bh3\b|heading ?3|title|headline ?(small|sm)/,
+  body1: /body1|body ?(large|lg|md|medium|base)|\bbase\b|\bbody\b/,
+  body2: /body2|body ?(small|sm)/,
+  caption: /caption|label|overline|\bxs\b/,
+};
+
+const SIZE_PATHS: Record<TokenSize, RegExp> = {
+  small: /\b(sm|small|s)\b|\b1$/,
+  medium: /\b(md|medium|m|base|default)\b|\b2$/,
+  large: /\b(lg|large|l|xl)\b|\b3$/,
+};
+
+// Splits camelCase and separators so word boundaries work on paths like 'bodyLarge' or 'radius-sm'
+const pathWords = (path: string): string => path.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[._-]+/g, ' ').toLowerCase();
+
+const findToken = (tokens: BrandToken[], include: RegExp, exclude: RegExp | null = null): BrandToken | undefined => {
+  const matches = tokens.filter((token) => include.test(pathWords(token.path)) && !exclude?.test(pathWords(token.path)));
+  // MUI's main and default, and the middle of a color ramp, beat light and dark variants
+  return matches.find((token) => /\b(main|default|base|500)\b/.test(pathWords(token.path))) ?? matches[0];
+};
+
+const pixelsOf = (token: BrandToken): number => parseFloat(token.value);
+
+// The brand color closest to a detected one, so roles the file doesn't name still use a brand color
+const nearestColor = (tokens: BrandToken[], hex: string): string =>
+  tokens.length === 0 ? hex : [...tokens].sort((a, b) => rgbDistance(a.value, hex) - rgbDistance(b.value, hex))[0].value.slice(0, 7);
+
+// The brand value closest to a detected one, so sizes without a named role still land on the scale
+const nearestPixels = (tokens: BrandToken[], pixels: number): number =>
+  tokens.length === 0 ? pixels : pixelsOf([...tokens].sort((a, b) => Math.abs(pixelsOf(a) - pixels) - Math.abs(pixelsOf(b) - pixels))[0]);
+
+// The theme palette and tokens with every value the brand file defines taking the place of the detected one;
+// exported themes and the preview's ThemeProvider are built from this while a brand theme is loaded
+export const applyBrandTheme = (
+  theme: BrandTheme,
+  palette: DesignPalette | null,
+  tokens: DesignTokens | null
+): { palette: DesignPalette; tokens: DesignTokens } => {
+  const byCategory = (category: BrandTokenCategory) => theme.tokens.filter((token) => token.category === category);
+  const colors = byCategory('color');
+  const fontSizes = byCategory('fontSize');
+  const radii = byCategory('radius');
+  const shadows = byCategory('shadow');
+  const base = tokens ?? extractDesignTokens(null, null);
+  const fallbackColors: Omit<DesignPalette, 'swatches'> = palette ?? {
+    primary: colors[0]?.value ?? '#1976d2',
+    secondary: colors[0]?.value ?? '#9c27b0',
+    background: '#ffffff',
+    surface: '#ffffff',
+    text: '#212121',
+  };
+
+  const brandPalette = Object.fromEntries(Object.entries(PALETTE_ROLE_PATHS).map(([role, [include, exclude]]) => {
+    const token = findToken(colors, include, exclude);
+    // Roles are plain #rrggbb; alpha belongs to overlays, not the base theme colors
+    return [role, token ? token.value.slice(0, 7) : nearestColor(colors, fallbackColors[role as PaletteRole])];
+  })) as Omit<DesignPalette, 'swatches'>;
+
+  const typography = Object.fromEntries(TYPE_ROLES.map((role) => {
+    const detected = base.typography[role];
+    const sizeToken = findToken(fontSizes, TYPE_ROLE_PATHS[role]);
+    const weightToken = findToken(byCategory('fontWeight'), TYPE_ROLE_PATHS[role]);
+    return [role, {
+      fontSize: sizeToken ? pixelsOf(sizeToken) : nearestPixels(fontSizes, detected.fontSize),
+      fontWeight: weightToken && Number.isFinite(Number(weightToken.value)) ? Number(weightToken.value) : detected.fontWeight,
+    }];
+  })) as DesignTokens['typography'];
+
+  const spacing = byCategory('spacing');
+  const spacingToken = findToken(spacing, /\b(unit|base|default)\b/) ?? (theme.format === 'mui' ? spacing[0] : undefined);
+  const fontFamily = findToken(byCategory('fontFamily'), /body|base|default|primary|sans|text/) ?? byCategory('fontFamily')[0];
+
+  return {
+    palette: { ...brandPalette, swatches: palette?.swatches ?? colors.map((token) => ({ hex: token.value.slice(0, 7), share: 0 })) },
+    tokens: {
+      fontFamily: fontFamily?.value ?? base.fontFamily,
+      typography,
+      spacing: spacingToken ? pixelsOf(spacingToken) : nearestPixels(spacing, base.spacing),
+      radii: Object.fromEntries(TOKEN_SIZES.map((size) => {
+        const token = findToken(radii, SIZE_PATHS[size]);
+        return [size, token ? pixelsOf(token) : nearestPixels(radii, base.radii[size])];
+      })) as DesignTokens['radii'],
+      shadows: Object.fromEntries(TOKEN_SIZES.map((size, i) => {
+        // Unnamed shadows are taken as an elevation ramp: first, middle and last
+        const token = findToken(shadows, SIZE_PATHS[size]) ?? shadows[Math.round((i * (shadows.length - 1)) / 2)];
+        return [size, token?.value ?? base.shadows[size]];
+      })) as DesignTokens['shadows'],
+    },
+  };
+};
+
+const rgbDistance = (a: string, b: string): number => {
+  const channels = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  const [ca, cb] = [channels(a), channels(b)];
+  return Math.sqrt(ca.reduce((sum, channel, i) => sum + (channel - cb[i]) ** 2, 0));
+};
+
+interface Literal {
+  kind: 'color' | 'fontSize';
+  // Normalized color or px size
+  value: string;
+  text: string;
+  line: number;
+  column: number;
+}
+
+const COLOR_IN_TEXT = /#(?:[0-9a-fA-F]{8}|[0-9a-fA-F]{6}|[0-9a-fA-F]{3,4})\b|rgba?\([^)]*\)/g;
+
+// Color strings and fontSize values in JS or TS; positions are 1-based like CodeDiagnostic
+const collectJavaScriptLiterals = (code: string): Literal[] => {
+  const literals: Literal[] = [];
+  let ast: t.File;
+  try {
+    ast = parseComponentCode(code);
+  } catch {
+    // Syntax errors are reported by validateCode
+    return literals;
+  }
+  // offset skips the opening quote of string literals
+  const addColors = (text: string, node: t.Node, offset: number) => {
+    if (!node.loc) return;
+    for (const match of text.matchAll(COLOR_IN_TEXT)) {
+      const color = normalizeColor(match[0]);
+      const column = node.loc.start.column + offset + (match.index ?? 0) + 1;
+      if (color) literals.push({ kind: 'color', value: color, text: match[0], line: node.loc.start.line, column });
+    }
+  };
+  traverse(ast, {
+    StringLiteral(path) {
+      if (path.parentPath.isImportDeclaration() || path.parentPath.isExportDeclaration()) return;
+      addColors(path.node.value, path.node, 1);
+    },
+    TemplateElement(path) {
+      addColors(path.node.value.cooked ?? path.node.value.raw, path.node, 0);
+    },
+    ObjectProperty(path) {
+      const { key, value } = path.node;
+      const name = t.isIdentifier(key) ? key.name : t.isStringLiteral(key) ? key.value : null;
+      if (name !== 'fontSize' || !value.loc) return;
+      const pixels = t.isNumericLiteral(value) ? value.value : t.isStringLiteral(value) ? toPixels(value.value) : null;
+      if (pixels !== null) {
+        literals.push({ kind: 'fontSize', value: formatPixels(pixels), text: String(t.isNumericLiteral(value) ? value.value : (value as t.StringLiteral).value), line: value.loc.start.line, column: value.loc.start.column + 1 });
+      }
+    },
+  });
+  return literals;
+};
+
+// Dart is not parsed; Color(...) constructors and fontSize arguments are matched per line
+const collectDartLiterals = (code: string): Literal[] =>
+  code.split('\n').flatMap((text, index) => {
+    const code = text.replace(/\/\/.*$/, '');
+    const literals: Literal[] = [];
+    for (const match of code.matchAll(/Color\(0x([0-9a-fA-F]{8})\)|Color\.fromARGB\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)|Color\.fromRGBO\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*([\d.]+)\s*\)/g)) {
+      const color = match[1] ? normalizeColor(`#${match[1].slice(2)}${match[1].slice(0, 2)}`)
+        : match[2] ? normalizeColor(`rgba(${match[3]}, ${match[4]}, ${match[5]}, ${Number(match[2]) / 255})`)
+        : normalizeColor(`rgba(${match[6]}, ${match[7]}, ${match[8]}, ${match[9]})`);
+      if (color) literals.push({ kind: 'color', value: color, text: match[0], line: index + 1, column: (match.index ?? 0) + 1 });
+    }
+    for (const match of code.matchAll(/fontSize:\s*([\d.]+)/g)) {
+      literals.push({ kind: 'fontSize', value: formatPixels(Number(match[1])), text: match[1], line: index + 1, column: (match.index ?? 0) + 1 });
+    }
+    return literals;
+  });
+
+// Flags colors and font sizes the brand theme doesn't define; opacity variants of brand colors pass
+export const validateBrandTokens = (code: string, theme: BrandTheme, format: CodeFormat): CodeDiagnostic[] => {
+  const colors = theme.tokens.filter((token) => token.category === 'color');
+  const fontSizes = theme.tokens.filter((token) => token.category === 'fontSize');
+  const brandColors = new Set(colors.map((token) => token.value.slice(0, 7)));
+  const brandSizes = new Set(fontSizes.map((token) => token.value));
+  const literals = format === 'flutter' ? collectDartLiterals(code) : collectJavaScriptLiterals(code);
+  return literals.flatMap((literal): CodeDiagnostic[] => {
+    if (literal.kind === 'color') {
+      if (colors.length === 0 || brandColors.has(literal.value.slice(0, 7))) return [];
+      const closest = [...colors].sort((a, b) => rgbDistance(a.value, literal.value) - rgbDistance(b.value, literal.value))[0];
+      return [{
+        rule: 'brand-color',
+        message: `Color ${literal.text} is not a brand token; the closest is ${closest.path} (${closest.value})`,
+        severity: 'warning',
+        line: literal.line,
+        column: literal.column,
+        endLine: literal.line,
+        endColumn: literal.column + literal.text.length,
+      }];
+    }
+    if (fontSizes.length === 0 || brandSizes.has(literal.value)) return [];
+    const pixels = parseFloat(literal.value);
+    const closest = [...fontSizes].sort((a, b) => Math.abs(parseFloat(a.value) - pixels) - Math.abs(parseFloat(b.value) - pixels))[0];
+    return [{
+      rule: 'brand-font-size',
+      message: `Font size ${literal.value} is not a brand token; the closest is ${closest.path} (${closest.value})`,
+      severity: 'warning',
+      line: literal.line,
+      column: literal.column,
+      endLine: literal.line,
+      endColumn: literal.column + literal.text.length,
+    }];
+  });
+};
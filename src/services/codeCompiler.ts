@@ -0,0 +1,250 @@
+import type * as TypeScript from 'typescript';
+import type { CodeFormat } from './codeGenerationProvider';
+import type { CodeDiagnostic } from './codeValidation';
+
+type TypeScriptModule = typeof TypeScript;
+
+export interface CompileResult {
+  // CommonJS module ready to be evaluated by a preview runtime; null when compilation failed
+  code: string | null;
+  diagnostics: CodeDiagnostic[];
+}
+
+// Declarations are fetched lazily so the compiler only costs bandwidth once a preview is requested.
+// node_modules is excluded from globs unless the search is exhaustive.
+const LIB_FILES = import.meta.glob('/node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default',
+  exhaustive: true,
+}) as Record<string, () => Promise<string>>;
+
+const TYPE_FILES = import.meta.glob([
+  '/node_modules/@types/react/index.d.ts',
+  '/node_modules/@types/react/global.d.ts',
+  '/node_modules/@types/react/jsx-runtime.d.ts',
+  '/node_modules/@types/prop-types/index.d.ts',
+  '/node_modules/csstype/index.d.ts',
+], {
+  query: '?raw',
+  import: 'default',
+  exhaustive: true,
+}) as Record<string, () => Promise<string>>;
+
+const LIB_DIRECTORY = '/node_modules/typescript/lib';
+const ROOT_LIBS = ['es2020', 'dom', 'dom.iterable'];
+
+const PACKAGE_TYPES: Record<string, string> = {
+  'react': '/node_modules/@types/react/index.d.ts',
+  'react/jsx-runtime': '/node_modules/@types/react/jsx-runtime.d.ts',
+  'prop-types': '/node_modules/@types/prop-types/index.d.ts',
+  'csstype': '/node_modules/csstype/index.d.ts',
+};
+
+// Packages the preview environments install, and src/preview/main.tsx bundles for the local preview;
+// anything else fails to resolve
+export const PREVIEW_MODULES: Record<Exclude<CodeFormat, 'flutter'>, string[]> = {
+  'react-mui': [
+    'react-dom', 'react-dom/client', '@mui/material', '@mui/material/*', '@mui/icons-material',
+    '@mui/icons-material/*', '@mui/system', '@emotion/react', '@emotion/styled', 'formik', 'yup',
+  ],
+  'react-native': [
+    'react-native', 'expo', 'expo-*', '@expo/vector-icons', '@expo/vector-icons/*', '@react-native-picker/picker',
+  ],
+};
+
+const SOURCE_FILE = '/GeneratedComponent.tsx';
+const MODULES_FILE = '/preview-modules.d.ts';
+
+// Semantic errors that are certain to throw once the module runs; everything else is a warning
+const RUNTIME_ERROR_CODES = new Set([
+  2304, // Cannot find name
+  2305, // Module has no exported member
+  2307, // Cannot find module
+  2349, // This expression is not callable
+  2448, // Block-scoped variable used before its declaration
+  2552, // Cannot find name, did you mean
+  2588, // Cannot assign to a constant
+  2693, // Only refers to a type, but is being used as a value
+  2724, // Module has no exported member, did you mean
+]);
+
+interface CompilerEnvironment {
+  ts: TypeScriptModule;
+  files: Map<string, string>;
+  // Parsed declaration files are reused across compilations
+  sourceFiles: Map<string, TypeScript.SourceFile>;
+}
+
+let environmentPromise: Promise<CompilerEnvironment> | null = null;
+
+const readGlobFile = async (files: Record<string, () => Promise<string>>, path: string): Promise<string> => {
+  const load = files[path];
+  if (!load) {
+    throw new Error(`Type declarations not bundled: ${path}`);
+  }
+  return load();
+};
+
+const loadLibraries = async (files: Map<string, string>) => {
+  const pending = [...ROOT_LIBS];
+  while (pending.length > 0) {
+    const path = `${LIB_DIRECTORY}/lib.${pending.pop()}.d.ts`;
+    if (files.has(path)) continue;
+    const content = await readGlobFile(LIB_FILES, path);
+    files.set(path, content);
+    for (const [, lib] of content.matchAll(/\/\/\/\s*<reference\s+lib="([^"]+)"/g)) {
+      pending.push(lib.toLowerCase());
+    }
+  }
+};
+
+const loadEnvironment = (): Promise<CompilerEnvironment> => {
+  if (!environmentPromise) {
+    environmentPromise = (async () => {
+      const module = await import('typescript');
+      const ts = ((module as unknown as { default?: TypeScriptModule }).default ?? module) as TypeScriptModule;
+      const files = new Map<string, string>();
+      await loadLibraries(files);
+      await Promise.all(Object.keys(TYPE_FILES).map(async (path) => {
+        files.set(path, await readGlobFile(TYPE_FILES, path));
+      }));
+      return { ts, files, sourceFiles: new Map() };
+    })();
+    // Allow a retry after a failed download
+    environmentPromise.catch(() => {
+      environmentPromise = null;
+    });
+  }
+  return environmentPromise;
+};
+
+const getDirectory = (path: string): string => path.slice(0, path.lastIndexOf('/'));
+
+const resolveModulePath = (specifier: string, containingFile: string, files: Map<string, string>): string | undefined => {
+  if (PACKAGE_TYPES[specifier]) {
+    return PACKAGE_TYPES[specifier];
+  }
+  if (!specifier.startsWith('.')) {
+    return undefined;
+  }
+  const segments = `${getDirectory(containingFile)}/${specifier}`.split('/');
+  const resolved: string[] = [];
+  for (const segment of segments) {
+    if (segment === '..') resolved.pop();
+    else if (segment && segment !== '.') resolved.push(segment);
+  }
+  const base = `/${resolved.join('/')}`;
+  return [`${base}.d.ts`, `${base}/index.d.ts`].find((candidate) => files.has(candidate));
+};
+
+const createModuleDeclarations = (format: Exclude<CodeFormat, 'flutter'>): string =>
+  PREVIEW_MODULES[format].map((name) => `declare module '${name}';`).join('\n');
+
+const toDiagnostic = (
+  ts: TypeScriptModule,
+  diagnostic: TypeScript.Diagnostic,
+  severity: CodeDiagnostic['severity'],
+  rule: string
+): CodeDiagnostic => {
+  const message = `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`;
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return { rule, message, severity, line: 1, column: 1, endLine: 1, endColumn: 1 };
+  }
+  const start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  const end = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start + (diagnostic.length ?? 1));
+  return {
+    rule,
+    message,
+    severity,
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
+  };
+};
+
+// Type-checks the component against React's typings and transpiles it to CommonJS with the automatic JSX runtime
+export const compileComponent = async (source: string, format: CodeFormat): Promise<CompileResult> => {
+  if (format === 'flutter') {
+    // Dart is compiled by DartPad; nothing to do in the browser
+    return { code: source, diagnostics: [] };
+  }
+
+  const { ts, files, sourceFiles } = await loadEnvironment();
+  const options: TypeScript.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    jsx: ts.JsxEmit.ReactJSX,
+    lib: ROOT_LIBS.map((lib) => `lib.${lib}.d.ts`),
+    // Generated code is plain JSX; only flag what would break at runtime or is clearly wrong
+    strict: false,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    types: [],
+  };
+  const virtualFiles = new Map([
+    [SOURCE_FILE, source],
+    [MODULES_FILE, createModuleDeclarations(format)],
+  ]);
+  const readFile = (fileName: string) => virtualFiles.get(fileName) ?? files.get(fileName);
+
+  const host: TypeScript.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const content = readFile(fileName);
+      if (content === undefined) return undefined;
+      if (virtualFiles.has(fileName)) {
+        return ts.createSourceFile(fileName, content, languageVersion, true);
+      }
+      let sourceFile = sourceFiles.get(fileName);
+      if (!sourceFile) {
+        sourceFile = ts.createSourceFile(fileName, content, languageVersion, true);
+        sourceFiles.set(fileName, sourceFile);
+      }
+      return sourceFile;
+    },
+    getDefaultLibFileName: () => `${LIB_DIRECTORY}/lib.d.ts`,
+    getDefaultLibLocation: () => LIB_DIRECTORY,
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => readFile(fileName) !== undefined,
+    readFile,
+    resolveModuleNameLiterals: (moduleLiterals, containingFile) =>
+      moduleLiterals.map((literal) => {
+        const resolvedFileName = resolveModulePath(literal.text, containingFile, files);
+        return {
+          resolvedModule: resolvedFileName
+            ? { resolvedFileName, extension: ts.Extension.Dts, isExternalLibraryImport: true }
+            : undefined,
+        };
+      }),
+  };
+
+  const program = ts.createProgram({ rootNames: [SOURCE_FILE, MODULES_FILE], options, host });
+  const sourceFile = program.getSourceFile(SOURCE_FILE)!;
+
+  const syntaxErrors = program.getSyntacticDiagnostics(sourceFile);
+  if (syntaxErrors.length > 0) {
+    return {
+      code: null,
+      diagnostics: syntaxErrors.map((diagnostic) => toDiagnostic(ts, diagnostic, 'error', 'syntax')),
+    };
+  }
+
+  const diagnostics = program.getSemanticDiagnostics(sourceFile).map((diagnostic) =>
+    toDiagnostic(ts, diagnostic, RUNTIME_ERROR_CODES.has(diagnostic.code) ? 'error' : 'warning', 'type-check')
+  );
+  if (diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+    return { code: null, diagnostics };
+  }
+
+  let code: string | null = null;
+  program.emit(sourceFile, (fileName, text) => {
+    if (fileName.endsWith('.js')) {
+      code = text;
+    }
+  });
+  return { code, diagnostics };
+};
@@ -0,0 +1,83 @@
+import type { ImageAnalysis } from '../analysis/protocol';
+import type { BrandTheme } from './brandTheme';
+import type { DesignTokens } from './designTokens';
+import type { DesignPalette } from './paletteExtraction';
+import type { UIDescriptionTree } from './uiSchema';
+
+export type CodeFormat = 'react-mui' | 'react-native' | 'flutter';
+
+export type DeviceType = 'desktop' | 'mobile' | 'react-native' | 'flutter';
+
+export interface GenerationOptions {
+  // Receives the accumulated raw completion each time a new chunk arrives
+  onToken?: (partialCode: string) => void;
+  signal?: AbortSignal;
+  // Theme colors the generated code must use, as confirmed in the palette editor
+  palette?: DesignPalette;
+  // Type scale, spacing, radii and shadows the generated code must take from the theme
+  tokens?: DesignTokens;
+  // The project's imported brand tokens; they replace the palette and tokens detected in the design and
+  // also constrain revisions
+  brandTheme?: BrandTheme;
+  // OCR, detected elements and colors of the design image, when the analysis worker succeeded
+  analysis?: ImageAnalysis;
+}
+
+// An edit to existing code, e.g. a runtime-error repair
+export interface CodeRevisionRequest {
+  code: string;
+  // What to change, phrased as instructions to the model
+  instructions: string;
+  codeFormat: CodeFormat;
+  // Earlier instructions already applied to this code, oldest first
+  history?: string[];
+}
+
+// Common surface every LLM backend exposes to the app
+export interface CodeGenerationProvider {
+  readonly id: string;
+  readonly label: string;
+  // Must return a tree that passed validateUIDescription
+  generateUIDescription(imageFile: File, options?: GenerationOptions): Promise<UIDescriptionTree>;
+  generateReactCode(
+    uiDescription: string,
+    userPrompt?: string,
+    deviceType?: string,
+    codeFormat?: string,
+    options?: GenerationOptions
+  ): Promise<string>;
+  // Returns the complete revised file, not a patch
+  reviseCode(request: CodeRevisionRequest, options?: GenerationOptions): Promise<string>;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+class ProviderRegistry {
+  private providers = new Map<string, CodeGenerationProvider>();
+
+  register(provider: CodeGenerationProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Code generation provider "${provider.id}" is already registered`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): CodeGenerationProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown code generation provider: ${id}`);
+    }
+    return provider;
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  list(): CodeGenerationProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
@@ -0,0 +1,51 @@
+import type { CodeFormat } from './codeGenerationProvider';
+
+export type CodeVersionSource = 'generation' | 'revision' | 'manual' | 'restore';
+
+// A snapshot of an image's code and what produced it
+export interface CodeVersion {
+  id: string;
+  code: string;
+  source: CodeVersionSource;
+  // Provider that wrote the code; absent for manual edits
+  providerId?: string;
+  // User prompt or revision instructions the code was produced from
+  prompt?: string;
+  codeFormat: CodeFormat;
+  createdAt: number;
+}
+
+// Oldest snapshots are dropped beyond this
+export const MAX_CODE_VERSIONS = 50;
+
+export const CODE_VERSION_LABELS: Record<CodeVersionSource, string> = {
+  generation: 'Generated',
+  revision: 'Revised',
+  manual: 'Manual edit',
+  restore: 'Restored',
+};
+
+// Appends a snapshot for code that is about to replace the current code. Edits typed since the last
+// snapshot are kept as a manual version first, in the format that code was written in, so they can be
+// restored after being overwritten.
+export const recordCodeVersion = (
+  history: CodeVersion[],
+  current: { code: string; codeFormat: CodeFormat | null },
+  version: Omit<CodeVersion, 'id' | 'createdAt'>
+): CodeVersion[] => {
+  const createdAt = Date.now();
+  const versions = [...history];
+  if (current.code.trim() && current.code !== versions[versions.length - 1]?.code) {
+    versions.push({
+      id: `${createdAt}-manual`,
+      code: current.code,
+      source: 'manual',
+      codeFormat: current.codeFormat ?? version.codeFormat,
+      createdAt,
+    });
+  }
+  if (version.code !== versions[versions.length - 1]?.code) {
+    versions.push({ ...version, id: `${createdAt}`, createdAt });
+  }
+  return versions.slice(-MAX_CODE_VERSIONS);
+};
@@ -0,0 +1,132 @@
+import type { CodeFormat, CodeRevisionRequest } from './codeGenerationProvider';
+import type { ScreenRoute } from './projectScaffold';
+import type { RegionTarget } from './regionSplice';
+import { UI_NODE_LABELS, type UINode } from './uiSchema';
+
+const FORMAT_LABELS: Record<CodeFormat, string> = {
+  'react-mui': 'React + Material-UI component',
+  'react-native': 'React Native (Expo) component',
+  'flutter': 'Flutter (Dart) app',
+};
+
+const ENTRY_REQUIREMENTS: Record<CodeFormat, string> = {
+  'react-mui': `Keep the main component named 'GeneratedComponent' and exported as default.`,
+  'react-native': `Keep the main component named 'App' and exported as default.`,
+  'flutter': `Keep the 'MyApp' class and the main() function.`,
+};
+
+export const REVISION_SYSTEM_PROMPT = `You are an expert UI developer revising existing code. Apply exactly the requested change, keep everything else (layout, styling, text, behaviour) as it is, and return ONLY the complete updated file without markdown or explanations.`;
+
+export const buildRevisionPrompt = ({ code, instructions, codeFormat, history }: CodeRevisionRequest): string =>
+  `Revise the following ${FORMAT_LABELS[codeFormat]}.
+${history?.length ? `
+EARLIER CHANGES (already applied to the code below; keep them):
+${history.map((entry, i) => `${i + 1}. ${entry}`).join('\n')}
+` : ''}
+INSTRUCTIONS:
+${instructions}
+
+CURRENT CODE:
+${code}
+
+MANDATORY: ${ENTRY_REQUIREMENTS[codeFormat]}
+MANDATORY: Return the complete file, not a diff or an excerpt.`;
+
+// Turns an error thrown by the local preview into repair instructions, in the spirit of refinePrompt
+export const buildRuntimeRepairInstructions = (runtimeError: string, codeFormat: CodeFormat): string => {
+  let instructions = `The component throws this error at runtime in the preview:\n${runtimeError}\n\nFix the cause of the error.\n`;
+
+  if (/Element type is invalid|is not defined|is not available in the local preview|Cannot find module/i.test(runtimeError)) {
+    instructions += codeFormat === 'react-native'
+      ? `MANDATORY: Import every component from 'react-native' or an installed Expo package, using the correct named or default import.\n`
+      : `MANDATORY: Import every component from '@mui/material' and every icon from '@mui/icons-material', using named imports. Do not import from any other package except React.\n`;
+  }
+  if (/Invalid hook call|Rendered (more|fewer) hooks|hook/i.test(runtimeError)) {
+    instructions += `MANDATORY: Call hooks only at the top level of the component, never inside conditions, loops or callbacks.\n`;
+  }
+  if (/Too many re-renders|Maximum update depth/i.test(runtimeError)) {
+    instructions += `MANDATORY: Do not set state during render; update state in event handlers or in useEffect with correct dependencies.\n`;
+  }
+  if (/Objects are not valid as a React child/i.test(runtimeError)) {
+    instructions += `MANDATORY: Render only strings, numbers or elements as children; map objects to JSX first.\n`;
+  }
+  if (/Cannot read propert(y|ies) of (undefined|null)|is not a function/i.test(runtimeError)) {
+    instructions += `MANDATORY: Initialise state and data with the shape the code reads, and guard optional values before using them.\n`;
+  }
+
+  return instructions;
+};
+
+// Asks for a rewrite of one element only; the rest of the returned file is discarded by spliceRegion
+export const buildRegionInstructions = (target: RegionTarget, regionDescription: string): string =>
+  `Regenerate one region of the screen. The user selected it on the design and it was described again on its own:
+${regionDescription}
+
+Rewrite ONLY the <${target.tagName}> element on lines ${target.line}-${target.endLine} so it renders that region:
+${target.source}
+
+MANDATORY: Replace it with exactly one JSX element at the same position, and leave every other line of the file unchanged.
+MANDATORY: Add any imports or styles the new element needs.`;
+
+// Where a screen of a routed app lives, with the route in the form its format navigates by
+export interface LinkedScreen {
+  name: string;
+  route: ScreenRoute;
+}
+
+const NAVIGATION_APIS: Record<CodeFormat, string> = {
+  'react-mui': `Import { useNavigate } from 'react-router-dom', call const navigate = useNavigate(); at the top of the component and navigate with navigate(route).`,
+  'react-native': `Import { useNavigation } from '@react-navigation/native', call const navigation = useNavigation(); at the top of the component and navigate with navigation.navigate(route).`,
+  'flutter': `Navigate with Navigator.pushNamed(context, route).`,
+};
+
+// React Navigation addresses screens by name, react-router and Flutter by path
+const routeTarget = ({ route }: LinkedScreen, codeFormat: CodeFormat): string =>
+  codeFormat === 'react-native' ? route.component : route.path;
+
+const describeLayoutNode = (node: UINode): string => {
+  const { x, y, width, height } = node.bounds;
+  return `- ${UI_NODE_LABELS[node.type]}${node.text ? ` "${node.text}"` : ''} at [x=${x}, y=${y}], ${width}x${height}px`;
+};
+
+// Flutter screens are mounted as routes of the app's MaterialApp, so they must not build their own
+const FLUTTER_ROUTE_REQUIREMENT = `MANDATORY: MyApp.build must return a Scaffold, not a MaterialApp; the app's MaterialApp provides the routes and theme. Change main() to runApp(MaterialApp(home: MyApp(...))).`;
+
+// Wires one screen into a routed app: its transitions become navigation calls and the parts
+// rendered by the shared layout are removed
+export const buildScreenNavigationInstructions = (
+  links: Array<{ trigger: string; target: LinkedScreen }>,
+  layoutNodes: UINode[],
+  codeFormat: CodeFormat
+): string => {
+  const sections = ['This screen is now one screen of a multi-screen app.'];
+  if (links.length > 0) {
+    sections.push(`Make these elements navigate to other screens. ${NAVIGATION_APIS[codeFormat]}
+${links.map(({ trigger, target }) => `- "${trigger}" goes to ${target.name}: route '${routeTarget(target, codeFormat)}'`).join('\n')}
+If an element submits a form, keep the existing submit handling and navigate after it.`);
+  }
+  if (layoutNodes.length > 0) {
+    sections.push(`Remove these parts of the screen; a shared layout renders them around it:
+${layoutNodes.map(describeLayoutNode).join('\n')}
+Let the remaining content fill the space they took.`);
+  }
+  if (codeFormat === 'flutter') sections.push(FLUTTER_ROUTE_REQUIREMENT);
+  return sections.join('\n\n');
+};
+
+const LAYOUT_SLOTS: Record<CodeFormat, string> = {
+  'react-mui': `Render <Outlet /> from 'react-router-dom' where the screen content was; the router puts the current screen there.`,
+  'react-native': `Take a children prop and render it where the screen content was, in a View with flex: 1.`,
+  'flutter': `Give MyApp a required 'final Widget child' constructor parameter and render child where the screen content was.`,
+};
+
+// Cuts the app shell (app bar, sidebar, tab bar) out of one screen's code so it is generated once
+export const buildLayoutInstructions = (layoutNodes: UINode[], screens: LinkedScreen[], codeFormat: CodeFormat): string =>
+  `Turn this screen into the shared layout of a multi-screen app. Keep ONLY these parts, exactly as they look now:
+${layoutNodes.map(describeLayoutNode).join('\n')}
+
+Remove all other screen content. ${LAYOUT_SLOTS[codeFormat]}
+
+Where an item in the kept parts leads to one of the app's screens, make it navigate there. ${NAVIGATION_APIS[codeFormat]}
+${screens.map((screen) => `- ${screen.name}: route '${routeTarget(screen, codeFormat)}'`).join('\n')}
+${codeFormat === 'flutter' ? `\n${FLUTTER_ROUTE_REQUIREMENT}` : ''}`;
@@ -0,0 +1,421 @@
+import { parse, type ParserPlugin } from '@babel/parser';
+import babelTraverse, { type NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import type { CodeFormat } from './codeGenerationProvider';
+
+// @babel/traverse is CommonJS; Node's ESM interop exposes the function on .default
+export const traverse: typeof babelTraverse = typeof babelTraverse === 'function'
+  ? babelTraverse
+  : (babelTraverse as unknown as { default: typeof babelTraverse }).default;
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// Positions are 1-based, matching Monaco markers
+export interface CodeDiagnostic {
+  rule: string;
+  message: string;
+  severity: DiagnosticSeverity;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  message: string;
+  diagnostics: CodeDiagnostic[];
+}
+
+const PARSER_PLUGINS: ParserPlugin[] = ['jsx', 'typescript'];
+
+// Browser globals generated components may legitimately reference without declaring
+const BROWSER_GLOBALS = new Set([
+  'window', 'document', 'navigator', 'console', 'localStorage', 'sessionStorage', 'location', 'history',
+  'fetch', 'alert', 'confirm', 'prompt', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval',
+  'requestAnimationFrame', 'cancelAnimationFrame', 'URL', 'URLSearchParams', 'FormData', 'Blob', 'File',
+  'FileReader', 'Event', 'CustomEvent', 'Image', 'HTMLElement', 'HTMLInputElement', 'KeyboardEvent',
+  'MouseEvent', 'IntersectionObserver', 'ResizeObserver', 'AbortController', 'Intl', 'structuredClone',
+  'process', 'require', 'module', 'exports', 'globalThis', 'self', 'performance', 'crypto',
+]);
+
+const ENTRY_COMPONENT: Record<CodeFormat, string> = {
+  'react-mui': 'GeneratedComponent',
+  'react-native': 'App',
+  'flutter': 'MyApp',
+};
+
+const createDiagnostic = (
+  rule: string,
+  message: string,
+  severity: DiagnosticSeverity,
+  node?: t.Node | null
+): CodeDiagnostic => {
+  const loc = node?.loc;
+  return {
+    rule,
+    message,
+    severity,
+    line: loc?.start.line ?? 1,
+    column: (loc?.start.column ?? 0) + 1,
+    endLine: loc?.end.line ?? 1,
+    endColumn: (loc?.end.column ?? 0) + 1,
+  };
+};
+
+const toResult = (diagnostics: CodeDiagnostic[]): ValidationResult => {
+  const firstError = diagnostics.find((d) => d.severity === 'error');
+  return {
+    valid: !firstError,
+    message: firstError ? firstError.message : '',
+    diagnostics,
+  };
+};
+
+export const parseComponentCode = (code: string): t.File =>
+  parse(code, {
+    sourceType: 'module',
+    plugins: PARSER_PLUGINS,
+    errorRecovery: false,
+  });
+
+const getJSXName = (name: t.JSXOpeningElement['name']): string => {
+  if (t.isJSXIdentifier(name)) return name.name;
+  if (t.isJSXMemberExpression(name)) return `${getJSXName(name.object)}.${name.property.name}`;
+  return `${name.namespace.name}:${name.name.name}`;
+};
+
+const hasAttribute = (element: t.JSXOpeningElement, names: string[]): boolean =>
+  element.attributes.some((attr) =>
+    t.isJSXSpreadAttribute(attr) || (t.isJSXIdentifier(attr.name) && names.includes(attr.name.name))
+  );
+
+// Whether an inputProps={{ 'aria-label': ... }} style attribute provides a label
+const hasNestedAriaLabel = (element: t.JSXOpeningElement): boolean =>
+  element.attributes.some((attr) => {
+    if (!t.isJSXAttribute(attr) || !t.isJSXExpressionContainer(attr.value)) return false;
+    const expression = attr.value.expression;
+    if (!t.isObjectExpression(expression)) return false;
+    return expression.properties.some((prop) =>
+      t.isObjectProperty(prop) &&
+      ((t.isStringLiteral(prop.key) && prop.key.value === 'aria-label') ||
+        (t.isObjectExpression(prop.value) && prop.value.properties.some((inner) =>
+          t.isObjectProperty(inner) && t.isStringLiteral(inner.key) && inner.key.value === 'aria-label'
+        )))
+    );
+  });
+
+const hasTextContent = (element: t.JSXElement): boolean =>
+  element.children.some((child) =>
+    (t.isJSXText(child) && child.value.trim().length > 0) ||
+    (t.isJSXExpressionContainer(child) && !t.isJSXEmptyExpression(child.expression)) ||
+    (t.isJSXElement(child) && hasTextContent(child))
+  );
+
+const isHookCall = (callee: t.Node): boolean =>
+  (t.isIdentifier(callee) && /^use[A-Z]/.test(callee.name)) ||
+  (t.isMemberExpression(callee) && t.isIdentifier(callee.object, { name: 'React' }) &&
+    t.isIdentifier(callee.property) && /^use[A-Z]/.test(callee.property.name));
+
+const getFunctionName = (path: NodePath<t.Function>): string | null => {
+  const node = path.node;
+  if ((t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) && node.id) {
+    return node.id.name;
+  }
+  const parent = path.parentPath;
+  if (parent?.isVariableDeclarator() && t.isIdentifier(parent.node.id)) {
+    return parent.node.id.name;
+  }
+  // React.memo(() => ...) / forwardRef((props, ref) => ...)
+  if (parent?.isCallExpression()) {
+    const declarator = parent.parentPath;
+    if (declarator?.isVariableDeclarator() && t.isIdentifier(declarator.node.id)) {
+      return declarator.node.id.name;
+    }
+  }
+  return null;
+};
+
+const checkHookCall = (path: NodePath<t.CallExpression>, diagnostics: CodeDiagnostic[]) => {
+  const hookName = t.isIdentifier(path.node.callee)
+    ? path.node.callee.name
+    : ((path.node.callee as t.MemberExpression).property as t.Identifier).name;
+  const fn = path.getFunctionParent();
+  if (!fn) {
+    diagnostics.push(createDiagnostic('hooks-misuse', `${hookName} is called outside of a component`, 'error', path.node));
+    return;
+  }
+  const name = getFunctionName(fn as NodePath<t.Function>);
+  if (!name || !/^([A-Z]|use[A-Z])/.test(name)) {
+    diagnostics.push(createDiagnostic(
+      'hooks-misuse',
+      `${hookName} is called inside a nested function; hooks must be called at the top level of a component or custom hook`,
+      'error',
+      path.node
+    ));
+    return;
+  }
+  // Only the branches run conditionally; the left operand of ||/&&/?? and a test always run
+  let previous: NodePath = path;
+  let current: NodePath | null = path.parentPath;
+  while (current && current.node !== fn.node) {
+    const conditional =
+      (current.isLogicalExpression() && previous.key === 'right') ||
+      ((current.isConditionalExpression() || current.isIfStatement()) &&
+        (previous.key === 'consequent' || previous.key === 'alternate')) ||
+      (current.isSwitchCase() && previous.listKey === 'consequent');
+    if (conditional) {
+      diagnostics.push(createDiagnostic('hooks-misuse', `${hookName} is called conditionally`, 'error', path.node));
+      return;
+    }
+    if (current.isLoop()) {
+      diagnostics.push(createDiagnostic('hooks-misuse', `${hookName} is called inside a loop`, 'error', path.node));
+      return;
+    }
+    previous = current;
+    current = current.parentPath;
+  }
+};
+
+const checkAccessibleName = (path: NodePath<t.JSXElement>, format: CodeFormat, diagnostics: CodeDiagnostic[]) => {
+  const opening = path.node.openingElement;
+  const name = getJSXName(opening.name);
+  const report = (message: string) =>
+    diagnostics.push(createDiagnostic('accessible-name', message, 'warning', opening));
+
+  if (format === 'react-mui') {
+    const labelled = hasAttribute(opening, ['aria-label', 'aria-labelledby', 'title']) || hasNestedAriaLabel(opening);
+    if ((name === 'IconButton' || name === 'Fab') && !labelled) {
+      report(`<${name}> has no accessible name; add an aria-label`);
+    } else if (name === 'Button' && !labelled && !hasTextContent(path.node)) {
+      report('<Button> has no text content or aria-label');
+    } else if ((name === 'TextField' || name === 'Select' || name === 'Checkbox' || name === 'Switch') &&
+               !labelled && !hasAttribute(opening, ['label', 'id'])) {
+      report(`<${name}> has no label or aria-label`);
+    } else if (name === 'img' && !hasAttribute(opening, ['alt'])) {
+      report('<img> is missing alt text');
+    }
+  } else if (format === 'react-native') {
+    const labelled = hasAttribute(opening, ['accessibilityLabel', 'aria-label']);
+    if (['TouchableOpacity', 'TouchableHighlight', 'Pressable'].includes(name) && !labelled) {
+      report(`<${name}> should have an accessibilityLabel`);
+    } else if (name === 'TextInput' && !labelled && !hasAttribute(opening, ['placeholder'])) {
+      report('<TextInput> has no accessibilityLabel or placeholder');
+    } else if (name === 'Image' && !labelled && !hasAttribute(opening, ['accessible', 'alt'])) {
+      report('<Image> should have an accessibilityLabel');
+    }
+  }
+};
+
+const isTypePosition = (path: NodePath): boolean =>
+  path.isTSType() || path.isTSTypeAnnotation() || path.isTSInterfaceDeclaration() ||
+  path.isTSTypeAliasDeclaration() || path.isTSTypeParameterInstantiation() ||
+  path.isTSTypeParameterDeclaration() || path.isTSEnumDeclaration() || path.isTSModuleDeclaration();
+
+const validateJavaScriptCode = (code: string, format: CodeFormat): CodeDiagnostic[] => {
+  const diagnostics: CodeDiagnostic[] = [];
+  let ast: t.File;
+  try {
+    ast = parseComponentCode(code);
+  } catch (error) {
+    const { loc } = error as { loc?: { line: number; column: number } };
+    const message = error instanceof Error ? error.message.replace(/\s*\(\d+:\d+\)$/, '') : 'Unable to parse code';
+    diagnostics.push({
+      rule: 'syntax',
+      message: `Syntax error: ${message}`,
+      severity: 'error',
+      line: loc?.line ?? 1,
+      column: (loc?.column ?? 0) + 1,
+      endLine: loc?.line ?? 1,
+      endColumn: (loc?.column ?? 0) + 2,
+    });
+    return diagnostics;
+  }
+
+  const entryComponent = ENTRY_COMPONENT[format];
+  let defaultExport: t.ExportDefaultDeclaration | null = null;
+  let hasJSX = false;
+  const reportedUndeclared = new Set<string>();
+
+  traverse(ast, {
+    Program(path) {
+      for (const [name, binding] of Object.entries(path.scope.bindings)) {
+        // React stays in scope for the classic JSX runtime even when never referenced
+        if (binding.kind === 'module' && !binding.referenced && name !== 'React') {
+          diagnostics.push(createDiagnostic('unused-import', `'${name}' is imported but never used`, 'warning', binding.identifier));
+        }
+      }
+    },
+    ExportDefaultDeclaration(path) {
+      defaultExport = path.node;
+    },
+    JSXElement(path) {
+      hasJSX = true;
+      checkAccessibleName(path, format, diagnostics);
+    },
+    CallExpression(path) {
+      if (isHookCall(path.node.callee)) {
+        checkHookCall(path, diagnostics);
+      }
+    },
+    ReferencedIdentifier(path) {
+      const node = path.node as t.Identifier | t.JSXIdentifier;
+      const name = node.name;
+      if (path.scope.hasBinding(name) || BROWSER_GLOBALS.has(name) || reportedUndeclared.has(name)) {
+        return;
+      }
+      // Babel scopes don't track type-only declarations, so skip anything inside a type
+      if (path.findParent((parent) => isTypePosition(parent))) {
+        return;
+      }
+      reportedUndeclared.add(name);
+      diagnostics.push(createDiagnostic('undeclared-identifier', `'${name}' is not defined or imported`, 'error', node));
+    },
+  });
+
+  if (!defaultExport) {
+    diagnostics.push(createDiagnostic('missing-default-export', `Missing default export; add "export default ${entryComponent};"`, 'error'));
+  } else {
+    const declaration = (defaultExport as t.ExportDefaultDeclaration).declaration;
+    const exportedName = t.isIdentifier(declaration)
+      ? declaration.name
+      : (t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id
+        ? declaration.id.name
+        : null;
+    if (exportedName !== entryComponent) {
+      diagnostics.push(createDiagnostic(
+        'missing-default-export',
+        `The default export must be the ${entryComponent} component`,
+        'error',
+        defaultExport
+      ));
+    }
+  }
+
+  if (!hasJSX) {
+    diagnostics.push(createDiagnostic('missing-jsx', 'The component does not render any JSX', 'error'));
+  }
+
+  return diagnostics;
+};
+
+// Dart is not parsed; unbalanced brackets catch most truncated or malformed output
+const validateDartCode = (code: string): CodeDiagnostic[] => {
+  const diagnostics: CodeDiagnostic[] = [];
+  const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+  const stack: { char: string; line: number; column: number }[] = [];
+  let line = 1;
+  let column = 0;
+  let quote: string | null = null;
+  let inLineComment = false;
+  let inBlockComment = false;
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    const next = code[i + 1];
+    column++;
+    if (char === '\n') {
+      line++;
+      column = 0;
+      inLineComment = false;
+      continue;
+    }
+    if (inLineComment) continue;
+    if (inBlockComment) {
+      if (char === '*' && next === '/') inBlockComment = false;
+      continue;
+    }
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '/' && next === '/') inLineComment = true;
+    else if (char === '/' && next === '*') inBlockComment = true;
+    else if (char === '"' || char === '\'') quote = char;
+    else if (char === '(' || char === '[' || char === '{') stack.push({ char, line, column });
+    else if (pairs[char]) {
+      const open = stack.pop();
+      if (!open || open.char !== pairs[char]) {
+        diagnostics.push({ rule: 'syntax', message: `Unexpected '${char}'`, severity: 'error', line, column, endLine: line, endColumn: column + 1 });
+        return diagnostics;
+      }
+    }
+  }
+  const unclosed = stack.pop();
+  if (unclosed) {
+    diagnostics.push({
+      rule: 'syntax',
+      message: `Unclosed '${unclosed.char}'`,
+      severity: 'error',
+      line: unclosed.line,
+      column: unclosed.column,
+      endLine: unclosed.line,
+      endColumn: unclosed.column + 1,
+    });
+  }
+
+  if (!/void\s+main\s*\(/.test(code)) {
+    diagnostics.push(createDiagnostic('missing-entry-point', 'Flutter code must define a main() function', 'error'));
+  }
+  if (!/class\s+\w*App\s+extends/.test(code)) {
+    diagnostics.push(createDiagnostic('missing-entry-point', 'Flutter code must define an App widget', 'error'));
+  }
+  if (!code.includes('Semantics')) {
+    diagnostics.push(createDiagnostic('accessible-name', 'Flutter code should wrap interactive widgets in Semantics', 'warning'));
+  }
+  return diagnostics;
+};
+
+export const validateCode = (code: string, format: CodeFormat): ValidationResult => {
+  if (!code || !code.trim()) {
+    return toResult([createDiagnostic('empty', 'No code provided', 'error')]);
+  }
+  const diagnostics = format === 'flutter' ? validateDartCode(code) : validateJavaScriptCode(code, format);
+  return toResult(diagnostics);
+};
+
+// Returns human-readable issues when the code has no responsive handling at all
+export const validateResponsiveDesign = (code: string, format: CodeFormat): string[] => {
+  if (format === 'flutter') {
+    return /MediaQuery|LayoutBuilder/.test(code)
+      ? []
+      : ['Layout does not adapt to screen width. Use MediaQuery or LayoutBuilder for responsive design.'];
+  }
+
+  let ast: t.File;
+  try {
+    ast = parseComponentCode(code);
+  } catch {
+    // Syntax errors are reported by validateCode
+    return [];
+  }
+
+  let responsive = false;
+  traverse(ast, {
+    Identifier(path) {
+      const name = path.node.name;
+      if (format === 'react-mui' && (name === 'useMediaQuery' || name === 'breakpoints')) {
+        responsive = true;
+      }
+      if (format === 'react-native' && (name === 'Dimensions' || name === 'useWindowDimensions')) {
+        responsive = true;
+      }
+      if (responsive) path.stop();
+    },
+    ObjectProperty(path) {
+      // MUI responsive values: sx={{ flexDirection: { xs: 'column', md: 'row' } }}
+      if (format === 'react-mui' && t.isIdentifier(path.node.key, { name: 'xs' })) {
+        responsive = true;
+        path.stop();
+      }
+    },
+  });
+
+  if (responsive) {
+    return [];
+  }
+  return format === 'react-mui'
+    ? ['Layout may not adapt correctly for mobile. Use useMediaQuery, theme.breakpoints or responsive sx values (xs, sm, md).']
+    : ['Layout may not scale across screen sizes. Use Dimensions or useWindowDimensions for dynamic sizing.'];
+};
@@ -0,0 +1,365 @@
+import type { ThemeOptions } from '@mui/material/styles';
+import type { ImageAnalysis } from '../analysis/protocol';
+import type { CodeFormat } from './codeGenerationProvider';
+import type { DesignPalette } from './paletteExtraction';
+import { flattenNodes, type UIDescriptionTree, type UIStyles } from './uiSchema';
+
+export type TypeRole = 'h1' | 'h2' | 'h3' | 'body1' | 'body2' | 'caption';
+
+export const TYPE_ROLES: TypeRole[] = ['h1', 'h2', 'h3', 'body1', 'body2', 'caption'];
+
+export type TokenSize = 'small' | 'medium' | 'large';
+
+export const TOKEN_SIZES: TokenSize[] = ['small', 'medium', 'large'];
+
+export interface TypeStyle {
+  fontSize: number;
+  fontWeight: number;
+}
+
+// Theme values besides the colors, which stay in DesignPalette; derived from the design and
+// editable before generation
+export interface DesignTokens {
+  // CSS font stack
+  fontFamily: string;
+  typography: Record<TypeRole, TypeStyle>;
+  // Base spacing unit in px; paddings and gaps are multiples of it
+  spacing: number;
+  radii: Record<TokenSize, number>;
+  // CSS box-shadow values, 'none' for a flat design
+  shadows: Record<TokenSize, string>;
+}
+
+const DEFAULT_FONT_FAMILY = '"Roboto", "Helvetica", "Arial", sans-serif';
+const DEFAULT_BODY_SIZE = 16;
+const DEFAULT_RADII: Record<TokenSize, number> = { small: 4, medium: 8, large: 16 };
+const DEFAULT_SHADOWS: Record<TokenSize, string> = {
+  small: '0px 1px 3px rgba(0, 0, 0, 0.12)',
+  medium: '0px 4px 12px rgba(0, 0, 0, 0.15)',
+  large: '0px 12px 32px rgba(0, 0, 0, 0.18)',
+};
+const FLAT_SHADOWS: Record<TokenSize, string> = { small: 'none', medium: 'none', large: 'none' };
+
+const FONT_WEIGHTS: Record<NonNullable<UIStyles['fontWeight']>, number> = { normal: 400, medium: 500, bold: 700 };
+// Sizes this close together are one step of the type scale
+const SIZE_TOLERANCE = 1;
+// Text this much larger than the body size counts as a heading
+const HEADING_RATIO = 1.15;
+// Larger radii belong to pills and circles rather than the radius scale
+const MAX_RADIUS = 48;
+// Share of paddings that must be multiples of a unit for it to be the spacing unit
+const MIN_UNIT_FIT = 0.6;
+
+interface TextSample {
+  size: number;
+  weight?: number;
+}
+
+const median = (values: number[]): number => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+// Distinct sizes, largest first, with sizes within the tolerance merged into the larger one
+const distinctSizes = (sizes: number[]): number[] =>
+  [...sizes].sort((a, b) => b - a).reduce<number[]>((steps, size) =>
+    steps.length > 0 && steps[steps.length - 1] - size <= SIZE_TOLERANCE ? steps : [...steps, Math.round(size)], []);
+
+// The most common weight among text of about this size
+const weightFor = (samples: TextSample[], size: number, fallback: number): number => {
+  const counts = new Map<number, number>();
+  samples
+    .filter((sample) => sample.weight && Math.abs(sample.size - size) <= SIZE_TOLERANCE)
+    .forEach((sample) => counts.set(sample.weight!, (counts.get(sample.weight!) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? fallback;
+};
+
+const buildTypeScale = (samples: TextSample[], baseFontSize?: number): Record<TypeRole, TypeStyle> => {
+  const body = Math.round(baseFontSize ?? (samples.length > 0 ? median(samples.map((sample) => sample.size)) : DEFAULT_BODY_SIZE));
+  const headings = distinctSizes(samples.filter((sample) => sample.size >= body * HEADING_RATIO).map((sample) => sample.size)).slice(0, 3);
+  // Missing heading steps are spread evenly between the smallest heading found (or twice the body) and the body
+  const lowest = headings[headings.length - 1] ?? Math.round(body * 2);
+  if (headings.length === 0) headings.push(lowest);
+  const missing = 3 - headings.length;
+  for (let i = 1; i <= missing; i++) {
+    headings.push(Math.round(lowest - ((lowest - body) * i) / (missing + 1)));
+  }
+  const smaller = distinctSizes(samples.filter((sample) => sample.size < body - SIZE_TOLERANCE).map((sample) => sample.size));
+  const caption = smaller[smaller.length - 1] ?? Math.round(body * 0.75);
+  const body2 = smaller.length > 1 ? smaller[0] : Math.round((body + caption) / 2);
+  const style = (fontSize: number, fallbackWeight: number): TypeStyle =>
+    ({ fontSize, fontWeight: weightFor(samples, fontSize, fallbackWeight) });
+  return {
+    h1: style(headings[0], 700),
+    h2: style(headings[1], 700),
+    h3: style(headings[2], 600),
+    body1: style(body, 400),
+    body2: style(body2, 400),
+    caption: style(caption, 400),
+  };
+};
+
+const detectSpacingUnit = (paddings: number[]): number => {
+  if (paddings.length === 0) return 8;
+  const fit = (unit: number) =>
+    paddings.filter((padding) => Math.abs(padding - Math.round(padding / unit) * unit) <= 1).length / paddings.length;
+  return [8, 6].find((unit) => fit(unit) >= MIN_UNIT_FIT) ?? 4;
+};
+
+const detectRadii = (radii: number[]): Record<TokenSize, number> => {
+  const steps = [...new Set(radii.filter((radius) => radius > 0 && radius <= MAX_RADIUS).map(Math.round))].sort((a, b) => a - b);
+  if (steps.length === 0) return DEFAULT_RADII;
+  if (steps.length === 1) return { small: Math.max(2, Math.round(steps[0] / 2)), medium: steps[0], large: steps[0] * 2 };
+  const small = steps[0];
+  const large = steps[steps.length - 1];
+  return { small, medium: steps.length > 2 ? median(steps) : Math.round((small + large) / 2), large };
+};
+
+// Reads the type scale from OCR and the described text styles, and spacing, radii and shadows from
+// the description; anything the design doesn't show keeps a conventional default
+export const extractDesignTokens = (analysis: ImageAnalysis | null, tree: UIDescriptionTree | null): DesignTokens => {
+  const styles = tree ? flattenNodes(tree).flatMap(({ node }) => (node.styles ? [node.styles] : [])) : [];
+  const samples: TextSample[] = [
+    ...styles.flatMap((s) => (s.fontSize ? [{ size: s.fontSize, weight: s.fontWeight && FONT_WEIGHTS[s.fontWeight] }] : [])),
+    ...(analysis?.elements ?? []).flatMap((element) => (element.fontSize ? [{ size: element.fontSize }] : [])),
+  ];
+  return {
+    fontFamily: DEFAULT_FONT_FAMILY,
+    typography: buildTypeScale(samples, analysis?.baseFontSize),
+    spacing: detectSpacingUnit(styles.flatMap((s) => (s.padding ? [s.padding] : []))),
+    radii: detectRadii(styles.flatMap((s) => (s.borderRadius !== undefined ? [s.borderRadius] : []))),
+    shadows: tree && !styles.some((s) => s.shadow) ? FLAT_SHADOWS : DEFAULT_SHADOWS,
+  };
+};
+
+interface ParsedShadow {
+  x: number;
+  y: number;
+  blur: number;
+  // 0xAARRGGBB
+  argb: number;
+}
+
+// Understands the single '<x>px <y>px <blur>px rgba(...)' / '#hex' shadows the token editor produces
+const parseShadow = (shadow: string): ParsedShadow | null => {
+  const lengths = shadow.match(/-?\d+(\.\d+)?(?=px|\s|$)/g)?.map(Number) ?? [];
+  if (shadow.trim() === 'none' || lengths.length < 2) return null;
+  const rgba = shadow.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+))?\s*\)/);
+  const hex = shadow.match(/#([0-9a-fA-F]{6})/);
+  const [r, g, b, a] = rgba
+    ? [Number(rgba[1]), Number(rgba[2]), Number(rgba[3]), rgba[4] === undefined ? 1 : Number(rgba[4])]
+    : hex ? [...[0, 2, 4].map((i) => parseInt(hex[1].slice(i, i + 2), 16)), 1] : [0, 0, 0, 0.2];
+  return { x: lengths[0], y: lengths[1], blur: lengths[2] ?? 0, argb: ((Math.round(a * 255) << 24) | (r << 16) | (g << 8) | b) >>> 0 };
+};
+
+// The named font of a custom stack; the default stack maps to each platform's system font
+const primaryFontFamily = (tokens: DesignTokens): string | null =>
+  tokens.fontFamily === DEFAULT_FONT_FAMILY ? null : tokens.fontFamily.split(',')[0].trim().replace(/^["']|["']$/g, '') || null;
+
+// Object literal source with bare keys and single-quoted strings, for theme modules
+const toSource = (value: unknown): string =>
+  JSON.stringify(value, null, 2)
+    .replace(/"([A-Za-z_$][\w$]*)":/g, '$1:')
+    .replace(/"((?:[^"\\]|\\.)*)"/g, (literal, text: string) => (text.includes("'") ? literal : `'${text.replace(/\\"/g, '"')}'`));
+
+// MUI shadows has 25 elevations; small covers cards, medium menus and large dialogs
+const muiShadows = (shadows: Record<TokenSize, string>): string[] =>
+  Array.from({ length: 25 }, (_, elevation) =>
+    elevation === 0 ? 'none' : elevation <= 2 ? shadows.small : elevation <= 8 ? shadows.medium : shadows.large);
+
+// MUI elevations that resolve to each shadow token
+const MUI_ELEVATIONS: Record<TokenSize, number> = { small: 1, medium: 4, large: 12 };
+
+export const buildMuiThemeOptions = (palette: DesignPalette | null | undefined, tokens: DesignTokens | null | undefined): ThemeOptions => ({
+  ...(palette && {
+    palette: {
+      primary: { main: palette.primary },
+      secondary: { main: palette.secondary },
+      background: { default: palette.background, paper: palette.surface },
+      text: { primary: palette.text },
+    },
+  }),
+  ...(tokens && {
+    typography: {
+      fontFamily: tokens.fontFamily,
+      ...Object.fromEntries(TYPE_ROLES.map((role) => [role, {
+        fontSize: `${tokens.typography[role].fontSize / 16}rem`,
+        fontWeight: tokens.typography[role].fontWeight,
+      }])),
+    },
+    spacing: tokens.spacing,
+    shape: { borderRadius: tokens.radii.medium },
+    shadows: muiShadows(tokens.shadows) as ThemeOptions['shadows'],
+  }),
+});
+
+// The theme module of a MUI app, exporting the theme its entry point provides
+export const buildMuiThemeModule = (palette: DesignPalette | null | undefined, tokens: DesignTokens | null | undefined): string => {
+  const options = buildMuiThemeOptions(palette, tokens);
+  return `import { createTheme } from '@mui/material/styles';
+${tokens ? `
+// Corner radii in px; theme.shape.borderRadius is the medium one
+export const radii = ${toSource(tokens.radii)};
+` : ''}
+export const theme = createTheme(${Object.keys(options).length > 0 ? toSource(options) : ''});
+`;
+};
+
+// Plain-object theme for React Native, where styles take numbers and shadows are props, not CSS
+export const buildNativeTheme = (palette: DesignPalette | null | undefined, tokens: DesignTokens | null | undefined) => {
+  const fontFamily = tokens && primaryFontFamily(tokens);
+  return {
+    ...(palette && {
+      colors: {
+        primary: palette.primary,
+        secondary: palette.secondary,
+        background: palette.background,
+        surface: palette.surface,
+        text: palette.text,
+      },
+    }),
+    ...(tokens && {
+      typography: Object.fromEntries(TYPE_ROLES.map((role) => [role, {
+        fontSize: tokens.typography[role].fontSize,
+        fontWeight: String(tokens.typography[role].fontWeight),
+        ...(fontFamily && { fontFamily }),
+      }])),
+      // Multiply for larger gaps, e.g. theme.spacing * 2
+      spacing: tokens.spacing,
+      radii: tokens.radii,
+      shadows: Object.fromEntries(TOKEN_SIZES.map((size) => {
+        const shadow = parseShadow(tokens.shadows[size]);
+        return [size, shadow
+          ? {
+            shadowColor: `#${(shadow.argb & 0xffffff).toString(16).padStart(6, '0')}`,
+            shadowOffset: { width: shadow.x, height: shadow.y },
+            shadowOpacity: Math.round(((shadow.argb >>> 24) / 255) * 100) / 100,
+            shadowRadius: shadow.blur / 2,
+            elevation: MUI_ELEVATIONS[size],
+          }
+          : {}];
+      })),
+    }),
+  };
+};
+
+// theme.js of an Expo app
+export const buildNativeThemeModule = (palette: DesignPalette | null | undefined, tokens: DesignTokens | null | undefined): string =>
+  `export const theme = ${toSource(buildNativeTheme(palette, tokens))};
+
+export default theme;
+`;
+
+const dartColor = (argb: number): string => `Color(0x${argb.toString(16).toUpperCase().padStart(8, '0')})`;
+
+const hexToArgb = (hex: string): number => (0xff000000 | parseInt(hex.slice(1), 16)) >>> 0;
+
+const FLUTTER_TEXT_STYLES: Record<TypeRole, string> = {
+  h1: 'headlineLarge',
+  h2: 'headlineMedium',
+  h3: 'titleLarge',
+  body1: 'bodyLarge',
+  body2: 'bodyMedium',
+  caption: 'bodySmall',
+};
+
+const dartDouble = (value: number): string => (Number.isInteger(value) ? `${value}.0` : String(value));
+
+// lib/theme.dart of a Flutter app, without the import so prompts can ask for it inline
+const buildFlutterThemeBody = (palette: DesignPalette | null | undefined, tokens: DesignTokens | null | undefined): string => {
+  const fontFamily = tokens && primaryFontFamily(tokens);
+  const theme = [
+    'useMaterial3: true,',
+    ...(palette ? [
+      `colorScheme: ColorScheme.fromSeed(seedColor: ${dartColor(hexToArgb(palette.primary))}).copyWith(
+    primary: ${dartColor(hexToArgb(palette.primary))},
+    secondary: ${dartColor(hexToArgb(palette.secondary))},
+    surface: ${dartColor(hexToArgb(palette.surface))},
+    onSurface: ${dartColor(hexToArgb(palette.text))},
+  ),`,
+      `scaffoldBackgroundColor: ${dartColor(hexToArgb(palette.background))},`,
+    ] : []),
+    ...(tokens ? [
+      ...(fontFamily ? [`fontFamily: ${JSON.stringify(fontFamily)},`] : []),
+      `textTheme: const TextTheme(
+${TYPE_ROLES.map((role) => `    ${FLUTTER_TEXT_STYLES[role]}: TextStyle(fontSize: ${dartDouble(tokens.typography[role].fontSize)}, fontWeight: FontWeight.w${tokens.typography[role].fontWeight}),`).join('\n')}
+  ),`,
+      `cardTheme: CardThemeData(
+    shape: RoundedRectangleBorder(borderRadius: BorderRadius.circular(AppRadii.medium)),
+  ),`,
+    ] : []),
+  ];
+  const constants = tokens ? `class AppSpacing {
+  // Base unit; paddings and gaps are multiples of it
+  static const double unit = ${dartDouble(tokens.spacing)};
+}
+
+class AppRadii {
+${TOKEN_SIZES.map((size) => `  static const double ${size} = ${dartDouble(tokens.radii[size])};`).join('\n')}
+}
+
+class AppShadows {
+${TOKEN_SIZES.map((size) => {
+    const shadow = parseShadow(tokens.shadows[size]);
+    return `  static const List<BoxShadow> ${size} = [${shadow
+      ? `BoxShadow(color: ${dartColor(shadow.argb)}, offset: Offset(${dartDouble(shadow.x)}, ${dartDouble(shadow.y)}), blurRadius: ${dartDouble(shadow.blur)})`
+      : ''}];`;
+  }).join('\n')}
+}
+
+` : '';
+  return `${constants}final ThemeData appTheme = ThemeData(
+${theme.map((line) => `  ${line}`).join('\n')}
+);
+`;
+};
+
+export const buildFlutterThemeModule = (palette: DesignPalette | null | undefined, tokens: DesignTokens | null | undefined): string =>
+  `import 'package:flutter/material.dart';
+
+${buildFlutterThemeBody(palette, tokens)}`;
+
+// The theme file each format's app gets, as shown in the token editor
+export const buildThemeModule = (
+  codeFormat: CodeFormat,
+  palette: DesignPalette | null | undefined,
+  tokens: DesignTokens | null | undefined
+): string => ({
+  'react-mui': buildMuiThemeModule,
+  'react-native': buildNativeThemeModule,
+  'flutter': buildFlutterThemeModule,
+}[codeFormat](palette, tokens));
+
+const describeTokens = (tokens: DesignTokens): string =>
+  `- Type scale: ${TYPE_ROLES.map((role) => `${role} ${tokens.typography[role].fontSize}px/${tokens.typography[role].fontWeight}`).join(', ')}
+- Spacing unit: ${tokens.spacing}px
+- Corner radii: ${TOKEN_SIZES.map((size) => `${size} ${tokens.radii[size]}px`).join(', ')}
+- Shadows: ${TOKEN_SIZES.map((size) => `${size} ${tokens.shadows[size]}`).join(', ')}`;
+
+const formatRadius = (radius: number, tokens: DesignTokens): string =>
+  String(Math.round((radius / tokens.radii.medium) * 100) / 100);
+
+// Prompt section that makes generated code reference the theme instead of literal values.
+// Supersedes buildPaletteRequirements when the image has tokens.
+export const buildDesignTokenRequirements = (
+  palette: DesignPalette | null | undefined,
+  tokens: DesignTokens,
+  codeFormat: CodeFormat | string
+): string => {
+  const usage: Record<CodeFormat, string> = {
+    'react-mui': `The app wraps the component in a ThemeProvider with this theme (shadows omitted), so do NOT call createTheme or add a ThemeProvider:
+${toSource({ ...buildMuiThemeOptions(palette, tokens), shadows: undefined })}
+- Colors: theme keys in sx, e.g. color: 'primary.main', bgcolor: 'background.paper', color: 'text.primary'
+- Text: <Typography variant="h1" | "h2" | "h3" | "body1" | "body2" | "caption"> without fontSize or fontWeight overrides
+- Spacing: sx numbers in theme units, e.g. p: 2 is ${tokens.spacing * 2}px, gap: 1 is ${tokens.spacing}px
+- Corner radii: sx borderRadius ${TOKEN_SIZES.map((size) => `${formatRadius(tokens.radii[size], tokens)} (${size})`).join(', ')}
+- Shadows: sx boxShadow ${TOKEN_SIZES.map((size) => `${MUI_ELEVATIONS[size]} (${size})`).join(', ')}`,
+    'react-native': `Declare this object once at the top of the file, exactly as written (the app's theme.js has the same shape):
+const theme = ${toSource(buildNativeTheme(palette, tokens))};
+- Reference it from StyleSheet.create: ${palette ? 'theme.colors.primary, ' : ''}...theme.typography.h1, padding: theme.spacing * 2, borderRadius: theme.radii.medium, ...theme.shadows.small`,
+    'flutter': `Add this theme code to the file, exactly as written, and pass appTheme as the MaterialApp theme:
+${buildFlutterThemeBody(palette, tokens)}
+- Reference ${palette ? 'Theme.of(context).colorScheme and ' : ''}Theme.of(context).textTheme, AppSpacing.unit * n for padding, AppRadii and AppShadows for decorations`,
+  };
+  return `DESIGN TOKENS (extracted from the design and confirmed by the user; MANDATORY):
+${describeTokens(tokens)}
+${usage[codeFormat as CodeFormat] ?? usage['react-mui']}
+- Never write ${palette ? 'hex colors, ' : ''}font sizes or pixel radii as literals; take them from the theme.`;
+};
@@ -0,0 +1,384 @@
+import type Tesseract from 'tesseract.js';
+
+// Anything laid out like ImageData: row-major RGBA bytes
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface TextBox {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // 0-1
+  confidence: number;
+}
+
+export type UIElementType =
+  | 'navigation'
+  | 'sidebar'
+  | 'button'
+  | 'text_input'
+  | 'checkbox'
+  | 'switch'
+  | 'card'
+  | 'list'
+  | 'list_item'
+  | 'image'
+  | 'text';
+
+export interface DetectedElement {
+  type: UIElementType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // 0-1, how well the region fits the heuristics for its type
+  confidence: number;
+  text?: string;
+}
+
+type RGB = [number, number, number];
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Region extends Box {
+  fill: RGB;
+  // Has its own background rather than only an outline or content on the parent's background
+  filled: boolean;
+  colorCount: number;
+  children: Region[];
+}
+
+// Segmentation runs on a grid of CELL_SIZE px cells to stay cheap on large screenshots
+const CELL_SIZE = 4;
+// Max per-channel difference for two colors to count as the same surface; low enough for #f5f5f5 panels on white
+const COLOR_TOLERANCE = 12;
+const MIN_REGION_SIZE = 12;
+const MAX_DEPTH = 3;
+const MAX_SAMPLES = 4096;
+const MAX_ELEMENTS = 60;
+const MIN_WORD_CONFIDENCE = 0.5;
+// Elements whose own text is reported; containers get their text as separate text elements
+const LABELLED_TYPES = new Set<UIElementType>(['button', 'text_input', 'list_item', 'text']);
+
+export const extractWords = (page: Tesseract.Page): TextBox[] =>
+  (page.blocks ?? [])
+    .flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines.flatMap((line) => line.words)))
+    .filter((word) => word.text.trim() && word.confidence / 100 >= MIN_WORD_CONFIDENCE)
+    .map((word) => ({
+      text: word.text.trim(),
+      x: word.bbox.x0,
+      y: word.bbox.y0,
+      width: word.bbox.x1 - word.bbox.x0,
+      height: word.bbox.y1 - word.bbox.y0,
+      confidence: word.confidence / 100,
+    }));
+
+const colorDistance = (a: RGB, b: RGB): number =>
+  Math.max(Math.abs(a[0] - b[0]), Math.abs(a[1] - b[1]), Math.abs(a[2] - b[2]));
+
+const differsFrom = (pixels: PixelBuffer, x: number, y: number, fill: RGB): boolean => {
+  const i = (y * pixels.width + x) * 4;
+  return colorDistance([pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]], fill) > COLOR_TOLERANCE;
+};
+
+// Shrinks a cell-aligned box to the pixels that actually differ from the fill
+const tighten = (pixels: PixelBuffer, box: Box, fill: RGB): Box => {
+  let minX = box.x + box.width, minY = box.y + box.height, maxX = box.x, maxY = box.y;
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) {
+      if (differsFrom(pixels, x, y, fill)) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  return maxX < minX ? box : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Dominant color of a box from a 5-bit-per-channel histogram, plus how varied the box is
+const analyzeBox = (pixels: PixelBuffer, box: Box): { dominant: RGB; share: number; colorCount: number } => {
+  const step = Math.max(1, Math.floor(Math.sqrt((box.width * box.height) / MAX_SAMPLES)));
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let samples = 0;
+  for (let y = box.y; y < box.y + box.height; y += step) {
+    for (let x = box.x; x < box.x + box.width; x += step) {
+      const i = (y * pixels.width + x) * 4;
+      const r = pixels.data[i], g = pixels.data[i + 1], b = pixels.data[i + 2];
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+      bucket.count++;
+      bucket.r += r;
+      bucket.g += g;
+      bucket.b += b;
+      buckets.set(key, bucket);
+      samples++;
+    }
+  }
+  let top = { count: 0, r: 0, g: 0, b: 0 };
+  let colorCount = 0;
+  for (const bucket of buckets.values()) {
+    if (bucket.count > top.count) top = bucket;
+    if (bucket.count >= 2) colorCount++;
+  }
+  const count = Math.max(top.count, 1);
+  return {
+    dominant: [Math.round(top.r / count), Math.round(top.g / count), Math.round(top.b / count)],
+    share: top.count / Math.max(samples, 1),
+    colorCount,
+  };
+};
+
+// Connected groups of cells containing any pixel that differs from the surrounding fill
+const segment = (pixels: PixelBuffer, box: Box, fill: RGB): Box[] => {
+  const columns = Math.ceil(box.width / CELL_SIZE);
+  const rows = Math.ceil(box.height / CELL_SIZE);
+  const foreground = new Uint8Array(columns * rows);
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) {
+      const cell = Math.floor((y - box.y) / CELL_SIZE) * columns + Math.floor((x - box.x) / CELL_SIZE);
+      if (!foreground[cell] && differsFrom(pixels, x, y, fill)) {
+        foreground[cell] = 1;
+      }
+    }
+  }
+
+  const components: Box[] = [];
+  const visited = new Uint8Array(columns * rows);
+  const queue: number[] = [];
+  for (let start = 0; start < foreground.length; start++) {
+    if (!foreground[start] || visited[start]) continue;
+    let minColumn = columns, minRow = rows, maxColumn = 0, maxRow = 0;
+    visited[start] = 1;
+    queue.push(start);
+    while (queue.length > 0) {
+      const cell = queue.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nextColumn = column + dx;
+          const nextRow = row + dy;
+          if (nextColumn < 0 || nextRow < 0 || nextColumn >= columns || nextRow >= rows) continue;
+          const next = nextRow * columns + nextColumn;
+          if (foreground[next] && !visited[next]) {
+            visited[next] = 1;
+            queue.push(next);
+          }
+        }
+      }
+    }
+    const x = box.x + minColumn * CELL_SIZE;
+    const y = box.y + minRow * CELL_SIZE;
+    const component = tighten(pixels, {
+      x,
+      y,
+      width: Math.min(box.x + box.width, box.x + (maxColumn + 1) * CELL_SIZE) - x,
+      height: Math.min(box.y + box.height, box.y + (maxRow + 1) * CELL_SIZE) - y,
+    }, fill);
+    // The parent's own outline shows up as a component spanning the whole box
+    const isOutline = component.width >= box.width * 0.9 && component.height >= box.height * 0.9;
+    if (component.width >= MIN_REGION_SIZE && component.height >= MIN_REGION_SIZE && !isOutline) {
+      components.push(component);
+    }
+  }
+  return components;
+};
+
+const buildRegions = (pixels: PixelBuffer, box: Box, fill: RGB, depth: number): Region[] =>
+  segment(pixels, box, fill).map((component) => {
+    const { dominant, share, colorCount } = analyzeBox(pixels, component);
+    const filled = share > 0.45 && colorDistance(dominant, fill) > COLOR_TOLERANCE;
+    const innerFill = filled ? dominant : fill;
+    const canNest = depth < MAX_DEPTH && component.width >= 3 * CELL_SIZE && component.height >= 3 * CELL_SIZE;
+    return {
+      ...component,
+      fill: dominant,
+      filled,
+      colorCount,
+      children: canNest ? buildRegions(pixels, component, innerFill, depth + 1) : [],
+    };
+  });
+
+const contains = (outer: Box, inner: Box): boolean => {
+  const centerX = inner.x + inner.width / 2;
+  const centerY = inner.y + inner.height / 2;
+  return centerX >= outer.x && centerX <= outer.x + outer.width && centerY >= outer.y && centerY <= outer.y + outer.height;
+};
+
+const readingOrder = (a: Box, b: Box): number =>
+  Math.abs(a.y - b.y) > Math.min(a.height, b.height) / 2 ? a.y - b.y : a.x - b.x;
+
+const wordsIn = (box: Box, words: TextBox[]): TextBox[] =>
+  words.filter((word) => contains(box, word)).sort(readingOrder);
+
+const classify = (region: Region, image: Box, words: TextBox[]): { type: UIElementType; confidence: number } | null => {
+  const { x, y, width, height } = region;
+  const aspect = width / height;
+  const regionWords = wordsIn(region, words);
+  const textArea = regionWords.reduce((sum, word) => sum + word.width * word.height, 0);
+  const textCoverage = textArea / (width * height);
+
+  if (y <= image.height * 0.02 && width >= image.width * 0.8 && height <= image.height * 0.2) {
+    return { type: 'navigation', confidence: 0.85 };
+  }
+  if (y + height >= image.height * 0.98 && width >= image.width * 0.8 && height <= image.height * 0.15) {
+    return { type: 'navigation', confidence: 0.7 };
+  }
+  if (x <= image.width * 0.02 && height >= image.height * 0.5 && width <= image.width * 0.35) {
+    return { type: 'sidebar', confidence: 0.8 };
+  }
+  if (region.colorCount >= 48 && textCoverage < 0.2 && width >= 32 && height >= 32) {
+    return { type: 'image', confidence: 0.6 };
+  }
+  if (regionWords.length === 0 && height >= 12 && height <= 36 && aspect >= 1.4 && aspect <= 2.6) {
+    return { type: 'switch', confidence: 0.45 };
+  }
+  if (regionWords.length === 0 && height >= 12 && height <= 32 && Math.abs(width - height) <= 4) {
+    return { type: 'checkbox', confidence: 0.5 };
+  }
+  if (height >= 24 && height <= 72 && aspect >= 1.5 && width <= image.width * 0.6) {
+    if (region.filled && regionWords.length >= 1 && regionWords.length <= 4) {
+      return { type: 'button', confidence: 0.8 };
+    }
+    if (!region.filled && aspect >= 4 && regionWords.length <= 6) {
+      return { type: 'text_input', confidence: regionWords.length > 0 ? 0.65 : 0.55 };
+    }
+    if (!region.filled && regionWords.length >= 1 && regionWords.length <= 3) {
+      return { type: 'button', confidence: 0.5 };
+    }
+  }
+  if (textCoverage >= 0.35 && region.children.every((child) => wordsIn(child, words).length > 0)) {
+    return { type: 'text', confidence: 0.5 };
+  }
+  if (width * height >= image.width * image.height * 0.02 && (region.filled || region.children.length >= 2)) {
+    return { type: 'card', confidence: region.filled ? 0.65 : 0.5 };
+  }
+  return null;
+};
+
+const similar = (a: number, b: number, tolerance: number): boolean => Math.abs(a - b) <= tolerance;
+
+// Three or more stacked siblings of the same size and alignment read as a list
+const detectLists = (siblings: DetectedElement[]): DetectedElement[] => {
+  const lists: DetectedElement[] = [];
+  const candidates = siblings
+    .filter((element) => element.type === 'card' || element.type === 'text' || element.type === 'button')
+    .sort((a, b) => a.y - b.y);
+  let run: DetectedElement[] = [];
+  const flush = () => {
+    if (run.length >= 3) {
+      const top = run[0];
+      const bottom = run[run.length - 1];
+      run.forEach((item) => {
+        item.type = 'list_item';
+      });
+      lists.push({
+        type: 'list',
+        x: Math.min(...run.map((item) => item.x)),
+        y: top.y,
+        width: Math.max(...run.map((item) => item.x + item.width)) - Math.min(...run.map((item) => item.x)),
+        height: bottom.y + bottom.height - top.y,
+        confidence: 0.6,
+      });
+    }
+    run = [];
+  };
+  for (const element of candidates) {
+    const previous = run[run.length - 1];
+    const continuesRun = previous &&
+      similar(element.x, previous.x, 8) &&
+      similar(element.width, previous.width, previous.width * 0.1) &&
+      similar(element.height, previous.height, previous.height * 0.25) &&
+      element.y - (previous.y + previous.height) <= previous.height;
+    if (!continuesRun) flush();
+    run.push(element);
+  }
+  flush();
+  return lists;
+};
+
+const collectElements = (regions: Region[], image: Box, words: TextBox[], elements: DetectedElement[]) => {
+  const siblings: DetectedElement[] = [];
+  for (const region of regions) {
+    const classification = classify(region, image, words);
+    if (classification) {
+      const element: DetectedElement = {
+        type: classification.type,
+        x: region.x,
+        y: region.y,
+        width: region.width,
+        height: region.height,
+        confidence: classification.confidence,
+      };
+      siblings.push(element);
+      elements.push(element);
+    }
+    collectElements(region.children, image, words, elements);
+  }
+  elements.push(...detectLists(siblings));
+};
+
+// OCR words that aren't part of a labelled control, merged into lines
+const groupTextLines = (words: TextBox[], claimed: DetectedElement[]): DetectedElement[] => {
+  const free = words.filter((word) => !claimed.some((element) => contains(element, word))).sort(readingOrder);
+  const lines: TextBox[][] = [];
+  for (const word of free) {
+    const line = lines[lines.length - 1];
+    const last = line?.[line.length - 1];
+    const sameLine = last &&
+      similar(word.y + word.height / 2, last.y + last.height / 2, last.height / 2) &&
+      word.x - (last.x + last.width) <= last.height * 2;
+    if (sameLine) line.push(word);
+    else lines.push([word]);
+  }
+  return lines.map((line) => {
+    const x = Math.min(...line.map((word) => word.x));
+    const y = Math.min(...line.map((word) => word.y));
+    return {
+      type: 'text' as const,
+      x,
+      y,
+      width: Math.max(...line.map((word) => word.x + word.width)) - x,
+      height: Math.max(...line.map((word) => word.y + word.height)) - y,
+      confidence: line.reduce((sum, word) => sum + word.confidence, 0) / line.length,
+      text: line.map((word) => word.text).join(' '),
+    };
+  });
+};
+
+// Classical, CPU-only detection: color segmentation finds surfaces and outlines, OCR boxes label them
+export const detectElements = (pixels: PixelBuffer, words: TextBox[]): DetectedElement[] => {
+  const image: Box = { x: 0, y: 0, width: pixels.width, height: pixels.height };
+  const background = analyzeBox(pixels, image).dominant;
+  const structural: DetectedElement[] = [];
+  collectElements(buildRegions(pixels, image, background, 0), image, words, structural);
+
+  const labelled = structural.filter((element) => LABELLED_TYPES.has(element.type));
+  for (const element of labelled) {
+    const text = wordsIn(element, words).map((word) => word.text).join(' ');
+    if (text) element.text = text.slice(0, 80);
+  }
+  // Text blocks found by segmentation are replaced by the OCR lines they contain
+  const controls = structural.filter((element) => element.type !== 'text');
+  const textLines = groupTextLines(words, controls.filter((element) => LABELLED_TYPES.has(element.type)));
+
+  return [...controls, ...textLines.slice(0, Math.max(0, MAX_ELEMENTS - controls.length))]
+    .slice(0, MAX_ELEMENTS)
+    .sort(readingOrder);
+};
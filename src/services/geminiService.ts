@@ -1,20 +1,30 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, type GenerativeModel } from '@google/generative-ai';
+import type { CodeGenerationProvider, CodeRevisionRequest, GenerationOptions } from './codeGenerationProvider';
+import { REVISION_SYSTEM_PROMPT, buildRevisionPrompt } from './codeRevision';
+import { buildBrandThemeRequirements } from './brandTheme';
+import { buildDesignTokenRequirements } from './designTokens';
+import { buildPaletteRequirements } from './paletteExtraction';
+import { buildAnalysisPrompt } from '../analysis/prompt';
+import { buildUIDescriptionInstructions, buildUIDescriptionRetry, parseUIDescription, type UIDescriptionTree } from './uiSchema';
 
 const API_KEY = import.meta.env.VITE_GEMINI_API_KEY || 'your-api-key-here';
 
-class GeminiService {
+class GeminiService implements CodeGenerationProvider {
+  readonly id = 'gemini';
+  readonly label = 'Google Gemini';
   private genAI: GoogleGenerativeAI;
-  private model: any;
+  private model: GenerativeModel;
 
   constructor() {
     this.genAI = new GoogleGenerativeAI(API_KEY);
     this.model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
   }
 
-  async generateUIDescription(imageFile: File): Promise<string> {
+  async generateUIDescription(imageFile: File, options: GenerationOptions = {}): Promise<UIDescriptionTree> {
+    let errors: string[] = [];
     try {
       const imageBuffer = await this.fileToBuffer(imageFile);
-      const prompt = `Analyze this UI design image and provide a detailed description of the layout, components, colors, typography, and overall structure. Focus on:
+      let prompt = `Analyze this UI design image and describe the layout, components, colors, typography, and overall structure as a component tree. Focus on:
 
 1. Layout structure (header, main content, footer, sidebars)
 2. UI components (buttons, forms, cards, navigation, modals)
@@ -24,7 +34,11 @@ class GeminiService {
 6. Interactive elements and states
 7. Responsive design considerations
 
-Provide a comprehensive description that can be used to recreate this design.`;
+The description must be precise enough to recreate this design. Prefer the measured colors, sizes and text below over estimates.
+
+${buildAnalysisPrompt(options.analysis)}
+
+${buildUIDescriptionInstructions()}`;
 
       const imagePart = {
         inlineData: {
@@ -33,20 +47,31 @@ Provide a comprehensive description that can be used to recreate this design.`;
         }
       };
 
-      const result = await this.model.generateContent([prompt, imagePart]);
-      const response = await result.response;
-      return response.text();
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const result = await this.model.generateContent([prompt, imagePart], { signal: options.signal });
+        const response = (await result.response).text();
+        const parsed = parseUIDescription(response);
+        if (parsed.tree) {
+          return parsed.tree;
+        }
+        errors = parsed.errors;
+        prompt += `\n\nPREVIOUS RESPONSE:\n${response}\n\n${buildUIDescriptionRetry(errors)}`;
+      }
     } catch (error) {
+      options.signal?.throwIfAborted();
       console.error('Error generating UI description:', error);
       throw new Error('Failed to generate UI description. Please check your API key and try again.');
     }
+    // Outside the try so an invalid tree is not reported as a configuration problem
+    throw new Error(`UI description did not match the schema: ${errors.join('; ')}`);
   }
 
   async generateReactCode(
     uiDescription: string,
     userPrompt: string = '',
     deviceType: string = 'desktop',
-    codeFormat: string = 'react-mui'
+    codeFormat: string = 'react-mui',
+    options: GenerationOptions = {}
   ): Promise<string> {
     try {
       let prompt = '';
@@ -58,26 +83,65 @@ Provide a comprehensive description that can be used to recreate this design.`;
       } else if (codeFormat === 'flutter') {
         prompt = this.getFlutterPrompt(uiDescription, userPrompt, deviceType);
       }
-
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      let code = response.text();
-
-      if (codeFormat === 'react-mui') {
-        code = this.preprocessCodeForReactLive(code);
-      } else if (codeFormat === 'react-native') {
-        code = this.preprocessReactNativeCode(code);
-      } else if (codeFormat === 'flutter') {
-        code = this.preprocessFlutterCode(code);
+      if (options.brandTheme) {
+        prompt += `\n\n${buildBrandThemeRequirements(options.brandTheme, codeFormat)}`;
+      } else if (options.tokens) {
+        prompt += `\n\n${buildDesignTokenRequirements(options.palette, options.tokens, codeFormat)}`;
+      } else if (options.palette) {
+        prompt += `\n\n${buildPaletteRequirements(options.palette, codeFormat)}`;
       }
-      
-      return code;
+
+      const code = await this.requestText(prompt, options);
+      return this.preprocessCode(code, codeFormat);
     } catch (error) {
+      options.signal?.throwIfAborted();
       console.error('Error generating code:', error);
       throw new Error('Failed to generate code. Please try again.');
     }
   }
 
+  async reviseCode(request: CodeRevisionRequest, options: GenerationOptions = {}): Promise<string> {
+    try {
+      const prompt = options.brandTheme
+        ? `${buildRevisionPrompt(request)}\n\n${buildBrandThemeRequirements(options.brandTheme, request.codeFormat)}`
+        : buildRevisionPrompt(request);
+      const code = await this.requestText(`${REVISION_SYSTEM_PROMPT}\n\n${prompt}`, options);
+      return this.preprocessCode(code, request.codeFormat);
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.error('Error revising code:', error);
+      throw new Error('Failed to revise code. Please try again.');
+    }
+  }
+
+  private async requestText(prompt: string, options: GenerationOptions): Promise<string> {
+    if (!options.onToken) {
+      const result = await this.model.generateContent(prompt, { signal: options.signal });
+      const response = await result.response;
+      return response.text();
+    }
+
+    let text = '';
+    const result = await this.model.generateContentStream(prompt, { signal: options.signal });
+    options.onToken(text);
+    for await (const chunk of result.stream) {
+      text += chunk.text();
+      options.onToken(text);
+    }
+    return text;
+  }
+
+  private preprocessCode(code: string, codeFormat: string): string {
+    if (codeFormat === 'react-mui') {
+      return this.preprocessCodeForReactLive(code);
+    } else if (codeFormat === 'react-native') {
+      return this.preprocessReactNativeCode(code);
+    } else if (codeFormat === 'flutter') {
+      return this.preprocessFlutterCode(code);
+    }
+    return code;
+  }
+
   private getReactMUIPrompt(uiDescription: string, userPrompt: string, deviceType: string): string {
     return `Based on the following UI description and user requirements, generate a complete React component using Material-UI (@mui/material) components.
 
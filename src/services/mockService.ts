@@ -0,0 +1,104 @@
+import type { CodeGenerationProvider, CodeRevisionRequest, GenerationOptions } from './codeGenerationProvider';
+import { parseUIDescription, serializeUIDescription, type UIDescriptionTree } from './uiSchema';
+
+// Fixtures live in /fixtures/<image-sha256>/ with a description.json and one file per code format
+// (react-mui.jsx, react-native.js, flutter.dart). /fixtures/default/ is used for unknown images.
+const FIXTURE_FILES = import.meta.glob('/fixtures/*/*', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+}) as Record<string, string>;
+
+const DEFAULT_FIXTURE = 'default';
+const MOCK_DELAY_MS: number = Number(import.meta.env.VITE_MOCK_PROVIDER_DELAY_MS) || 0;
+// Number of lines emitted per simulated stream chunk
+const STREAM_CHUNK_LINES = 4;
+
+class MockService implements CodeGenerationProvider {
+  readonly id = 'mock';
+  readonly label = 'Local fixtures (offline)';
+  private fixtures: Map<string, Map<string, string>>;
+  // Remembers which fixture produced a serialized tree so code lookups stay keyed by image hash
+  private descriptionSources = new Map<string, string>();
+
+  constructor() {
+    this.fixtures = new Map();
+    for (const [path, content] of Object.entries(FIXTURE_FILES)) {
+      const [, , key, fileName] = path.split('/');
+      const entry = fileName.replace(/\.[^.]+$/, '');
+      if (!this.fixtures.has(key)) {
+        this.fixtures.set(key, new Map());
+      }
+      this.fixtures.get(key)!.set(entry, content);
+    }
+  }
+
+  async generateUIDescription(imageFile: File, options: GenerationOptions = {}): Promise<UIDescriptionTree> {
+    const hash = await this.hashFile(imageFile);
+    const key = this.fixtures.get(hash)?.has('description') ? hash : DEFAULT_FIXTURE;
+    const { tree, errors } = parseUIDescription(this.readFixture(key, 'description'));
+    if (!tree) {
+      throw new Error(`fixtures/${key}/description.json does not match the UI description schema: ${errors.join('; ')}`);
+    }
+    this.descriptionSources.set(serializeUIDescription(tree), key);
+    await this.simulateLatency();
+    options.signal?.throwIfAborted();
+    return tree;
+  }
+
+  async generateReactCode(
+    uiDescription: string,
+    _userPrompt?: string,
+    _deviceType?: string,
+    codeFormat: string = 'react-mui',
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    // The app embeds the serialized tree in the description it sends
+    const source = Array.from(this.descriptionSources).find(([tree]) => uiDescription.includes(tree))?.[1];
+    const key = source && this.fixtures.get(source)?.has(codeFormat) ? source : DEFAULT_FIXTURE;
+    const code = this.readFixture(key, codeFormat);
+    await this.streamCode(code, options);
+    return code;
+  }
+
+  // Fixtures have no notion of edits, so revisions echo the current code back through the same stream
+  async reviseCode(request: CodeRevisionRequest, options: GenerationOptions = {}): Promise<string> {
+    await this.streamCode(request.code, options);
+    return request.code;
+  }
+
+  private async streamCode(code: string, options: GenerationOptions): Promise<void> {
+    if (options.onToken) {
+      const lines = code.split('\n');
+      for (let i = 0; i < lines.length; i += STREAM_CHUNK_LINES) {
+        options.signal?.throwIfAborted();
+        options.onToken(lines.slice(0, i + STREAM_CHUNK_LINES).join('\n'));
+        await this.simulateLatency();
+      }
+    } else {
+      await this.simulateLatency();
+    }
+    options.signal?.throwIfAborted();
+  }
+
+  private readFixture(key: string, entry: string): string {
+    const content = this.fixtures.get(key)?.get(entry);
+    if (content === undefined) {
+      throw new Error(`Missing fixture "${entry}" in fixtures/${key}`);
+    }
+    return content.trim();
+  }
+
+  private async hashFile(file: File): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  private simulateLatency(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, MOCK_DELAY_MS));
+  }
+}
+
+export const mockService = new MockService();
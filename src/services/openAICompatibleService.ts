@@ -0,0 +1,63 @@
+import OpenAI from 'openai';
+import { EnhancedAzureOpenAIService } from './azureOpenAIService';
+
+export type OpenAICompatibleAuthScheme = 'none' | 'bearer' | 'api-key';
+
+export interface OpenAICompatibleConfig {
+  baseURL: string;
+  model: string;
+  authScheme: OpenAICompatibleAuthScheme;
+  apiKey: string;
+  // Header used by the 'api-key' scheme (e.g. "api-key" or "X-API-Key")
+  authHeader: string;
+}
+
+// Defaults target a local Ollama server; llama.cpp and vLLM expose the same /v1 API
+export const defaultOpenAICompatibleConfig: OpenAICompatibleConfig = {
+  baseURL: import.meta.env.VITE_OPENAI_COMPAT_BASE_URL || 'http://localhost:11434/v1',
+  model: import.meta.env.VITE_OPENAI_COMPAT_MODEL || 'llava',
+  authScheme: (import.meta.env.VITE_OPENAI_COMPAT_AUTH as OpenAICompatibleAuthScheme) || 'none',
+  apiKey: import.meta.env.VITE_OPENAI_COMPAT_API_KEY || '',
+  authHeader: import.meta.env.VITE_OPENAI_COMPAT_AUTH_HEADER || 'api-key',
+};
+
+// Reuses the Azure prompts and validation loop against any server speaking the OpenAI chat API
+class OpenAICompatibleService extends EnhancedAzureOpenAIService {
+  readonly id: string = 'openai-compatible';
+  readonly label: string = 'OpenAI-compatible (self-hosted)';
+  private config: OpenAICompatibleConfig = defaultOpenAICompatibleConfig;
+
+  constructor() {
+    super();
+    this.configure(defaultOpenAICompatibleConfig);
+  }
+
+  getConfig(): OpenAICompatibleConfig {
+    return this.config;
+  }
+
+  configure(config: OpenAICompatibleConfig): void {
+    this.config = config;
+    this.model = config.model;
+    this.client = new OpenAI({
+      // The SDK requires a key even when the server ignores it
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseURL.replace(/\/+$/, ''),
+      defaultHeaders: this.getAuthHeaders(config),
+      dangerouslyAllowBrowser: true,
+    });
+  }
+
+  private getAuthHeaders(config: OpenAICompatibleConfig): Record<string, string | null> {
+    switch (config.authScheme) {
+      case 'bearer':
+        return {};
+      case 'api-key':
+        return { Authorization: null, [config.authHeader || 'api-key']: config.apiKey };
+      default:
+        return { Authorization: null };
+    }
+  }
+}
+
+export const openAICompatibleService = new OpenAICompatibleService();
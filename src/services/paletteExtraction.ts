@@ -0,0 +1,211 @@
+import type { CodeFormat } from './codeGenerationProvider';
+import type { PixelBuffer, TextBox } from './elementDetection';
+
+export interface PaletteSwatch {
+  hex: string;
+  // Share of sampled pixels in this cluster (0-1)
+  share: number;
+}
+
+// Theme roles inferred from the design, editable by the user before generation
+export interface DesignPalette {
+  primary: string;
+  secondary: string;
+  background: string;
+  surface: string;
+  text: string;
+  // Every k-means cluster, largest first
+  swatches: PaletteSwatch[];
+}
+
+export type PaletteRole = Exclude<keyof DesignPalette, 'swatches'>;
+
+export const PALETTE_ROLES: PaletteRole[] = ['primary', 'secondary', 'background', 'surface', 'text'];
+
+export interface ElementStyle {
+  // Dominant fill of the element's box
+  color: string;
+  // Strongest contrasting color inside the box, usually text or an icon
+  textColor?: string;
+  fontSize?: number;
+}
+
+type RGB = [number, number, number];
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const GLOBAL_CLUSTERS = 8;
+const REGION_CLUSTERS = 3;
+const MAX_SAMPLES = 8192;
+const MAX_ITERATIONS = 12;
+// Chroma below this reads as gray and never becomes a brand color
+const MIN_BRAND_CHROMA = 40;
+const MIN_INK_SHARE = 0.02;
+// OCR word boxes span roughly ascender to baseline, about 0.8 of the font size
+const WORD_HEIGHT_TO_FONT_SIZE = 1 / 0.8;
+
+export const toHex = ([r, g, b]: RGB): string =>
+  `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string): RGB => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const squaredDistance = (a: RGB, b: RGB): number =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const chroma = ([r, g, b]: RGB): number => Math.max(r, g, b) - Math.min(r, g, b);
+
+const luminance = ([r, g, b]: RGB): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const hue = ([r, g, b]: RGB): number => {
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) return 0;
+  const sector = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return (sector * 60 + 360) % 360;
+};
+
+const hueDistance = (a: RGB, b: RGB): number => {
+  const difference = Math.abs(hue(a) - hue(b));
+  return Math.min(difference, 360 - difference);
+};
+
+const samplePixels = (pixels: PixelBuffer, box: Box): RGB[] => {
+  const step = Math.max(1, Math.floor(Math.sqrt((box.width * box.height) / MAX_SAMPLES)));
+  const samples: RGB[] = [];
+  for (let y = box.y; y < box.y + box.height; y += step) {
+    for (let x = box.x; x < box.x + box.width; x += step) {
+      const i = (y * pixels.width + x) * 4;
+      // Fully transparent pixels carry no color information
+      if (pixels.data[i + 3] === 0) continue;
+      samples.push([pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]]);
+    }
+  }
+  return samples;
+};
+
+// Farthest-point seeding keeps small but distinct accents (brand buttons) from being absorbed
+const seedCenters = (samples: RGB[], k: number): RGB[] => {
+  const centers: RGB[] = [samples[0]];
+  const nearest = samples.map((sample) => squaredDistance(sample, samples[0]));
+  while (centers.length < k) {
+    let farthest = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if (nearest[i] > nearest[farthest]) farthest = i;
+    }
+    if (nearest[farthest] === 0) break;
+    centers.push(samples[farthest]);
+    samples.forEach((sample, i) => {
+      nearest[i] = Math.min(nearest[i], squaredDistance(sample, samples[farthest]));
+    });
+  }
+  return centers;
+};
+
+const kMeans = (samples: RGB[], k: number): PaletteSwatch[] => {
+  if (samples.length === 0) return [];
+  let centers = seedCenters(samples, k);
+  const assignments = new Int32Array(samples.length);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    samples.forEach((sample, i) => {
+      let best = 0;
+      for (let c = 1; c < centers.length; c++) {
+        if (squaredDistance(sample, centers[c]) < squaredDistance(sample, centers[best])) best = c;
+      }
+      if (assignments[i] !== best) {
+        assignments[i] = best;
+        changed = true;
+      }
+    });
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    samples.forEach((sample, i) => {
+      const sum = sums[assignments[i]];
+      sum[0] += sample[0];
+      sum[1] += sample[1];
+      sum[2] += sample[2];
+      sum[3]++;
+    });
+    centers = sums.map((sum, c) => (sum[3] > 0 ? [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]] : centers[c]));
+    if (!changed && iteration > 0) break;
+  }
+  const counts = new Array(centers.length).fill(0);
+  assignments.forEach((c) => counts[c]++);
+  return centers
+    .map((center, c) => ({ hex: toHex(center), share: counts[c] / samples.length }))
+    .filter((swatch) => swatch.share > 0)
+    .sort((a, b) => b.share - a.share);
+};
+
+export const extractColors = (pixels: PixelBuffer, box?: Box, k: number = GLOBAL_CLUSTERS): PaletteSwatch[] =>
+  kMeans(samplePixels(pixels, box ?? { x: 0, y: 0, width: pixels.width, height: pixels.height }), k);
+
+// Assigns theme roles: the largest cluster is the background, the most contrasting one the text,
+// and the most colorful clusters (weighted by how much of the design they cover) the brand colors
+export const buildDesignPalette = (swatches: PaletteSwatch[]): DesignPalette => {
+  const colors = swatches.map((swatch) => ({ ...swatch, rgb: fromHex(swatch.hex) }));
+  const background = colors[0] ?? { hex: '#ffffff', share: 1, rgb: [255, 255, 255] as RGB };
+  const others = colors.slice(1);
+  const contrast = (rgb: RGB) => Math.abs(luminance(rgb) - luminance(background.rgb));
+  const text = others
+    .filter((color) => color.share >= MIN_INK_SHARE / 2)
+    .reduce<typeof background | null>((best, color) => (!best || contrast(color.rgb) > contrast(best.rgb) ? color : best), null);
+  const surface = others.find((color) => color !== text && chroma(color.rgb) < MIN_BRAND_CHROMA &&
+    Math.sqrt(squaredDistance(color.rgb, background.rgb)) < 48);
+  const brands = others
+    .filter((color) => chroma(color.rgb) >= MIN_BRAND_CHROMA)
+    .sort((a, b) => chroma(b.rgb) * Math.sqrt(b.share) - chroma(a.rgb) * Math.sqrt(a.share));
+  const primary = brands[0] ?? text ?? background;
+  const secondary = brands.find((color) => color !== primary && hueDistance(color.rgb, primary.rgb) >= 30) ?? primary;
+  return {
+    primary: primary.hex,
+    secondary: secondary.hex,
+    background: background.hex,
+    surface: surface?.hex ?? background.hex,
+    text: text?.hex ?? (luminance(background.rgb) > 128 ? '#000000' : '#ffffff'),
+    swatches,
+  };
+};
+
+export const estimateFontSize = (words: TextBox[]): number | undefined => {
+  if (words.length === 0) return undefined;
+  const heights = words.map((word) => word.height).sort((a, b) => a - b);
+  return Math.round(heights[Math.floor(heights.length / 2)] * WORD_HEIGHT_TO_FONT_SIZE);
+};
+
+export const describeElementStyle = (pixels: PixelBuffer, box: Box, words: TextBox[]): ElementStyle => {
+  const [fill, ...rest] = extractColors(pixels, box, REGION_CLUSTERS);
+  const fillRgb = fromHex(fill?.hex ?? '#ffffff');
+  const ink = rest
+    .filter((swatch) => swatch.share >= MIN_INK_SHARE)
+    .sort((a, b) => squaredDistance(fromHex(b.hex), fillRgb) - squaredDistance(fromHex(a.hex), fillRgb))[0];
+  const inside = words.filter((word) =>
+    word.x >= box.x && word.y >= box.y && word.x + word.width <= box.x + box.width && word.y + word.height <= box.y + box.height
+  );
+  return { color: toHex(fillRgb), textColor: ink?.hex, fontSize: estimateFontSize(inside) };
+};
+
+// Prompt section that pins the generated theme to the design's colors
+export const buildPaletteRequirements = (palette: DesignPalette, codeFormat: CodeFormat | string): string => {
+  const colors = `primary ${palette.primary}, secondary ${palette.secondary}, background ${palette.background}, ` +
+    `surface ${palette.surface}, text ${palette.text}`;
+  const usage: Record<CodeFormat, string> = {
+    'react-mui': `Define the theme with createTheme({ palette: { primary: { main: '${palette.primary}' }, ` +
+      `secondary: { main: '${palette.secondary}' }, background: { default: '${palette.background}', paper: '${palette.surface}' }, ` +
+      `text: { primary: '${palette.text}' } } }) and reference theme.palette instead of hard-coding colors.`,
+    'react-native': 'Declare these colors once in a `colors` object and reference it from StyleSheet.create instead of repeating literals.',
+    'flutter': `Build ThemeData with ColorScheme(primary: Color(0xFF${palette.primary.slice(1)}), ` +
+      `secondary: Color(0xFF${palette.secondary.slice(1)}), surface: Color(0xFF${palette.surface.slice(1)}), ...) ` +
+      `and scaffoldBackgroundColor: Color(0xFF${palette.background.slice(1)}).`,
+  };
+  return `DESIGN PALETTE (extracted from the design and confirmed by the user; MANDATORY):
+- Use exactly these brand colors: ${colors}
+- ${usage[codeFormat as CodeFormat] ?? usage['react-mui']}`;
+};
@@ -0,0 +1,143 @@
+import JSZip from 'jszip';
+import type { CodeFormat } from './codeGenerationProvider';
+import { createProjectId, storedCodeFormat, type Project, type ProjectSettings, type StoredImage } from './projectStore';
+import { EMPTY_SCREEN_FLOW, type ScreenFlow } from './screenFlow';
+import { serializeUIDescription } from './uiSchema';
+
+// Bumped whenever project.json changes shape; older bundles are migrated on import
+// 2: screen flow, per-image design tokens and code format, brand theme setting
+export const BUNDLE_VERSION = 2;
+
+const MANIFEST_PATH = 'project.json';
+
+type BundledProject = Omit<Project, 'imageCount' | 'updatedAt'>;
+
+// project.json holds everything needed to restore the project; the other files are readable copies
+interface BundleManifest {
+  bundleVersion: number;
+  name: string;
+  createdAt: number;
+  exportedAt: number;
+  settings: ProjectSettings;
+  images: Array<Omit<StoredImage, 'file'> & {
+    // Path of the original image inside the archive
+    imagePath: string;
+    fileName: string;
+    fileType: string;
+  }>;
+  flow: ScreenFlow;
+}
+
+// Version 1 manifests, and the version 2 fields they may lack
+type ImportedManifest = Omit<BundleManifest, 'settings' | 'images' | 'flow'> & {
+  settings: Omit<ProjectSettings, 'brandTheme'> & { brandTheme?: ProjectSettings['brandTheme'] };
+  images: Array<Omit<BundleManifest['images'][number], 'tokens' | 'codeFormat'> & Partial<Pick<StoredImage, 'tokens' | 'codeFormat'>>>;
+  flow?: ScreenFlow;
+};
+
+const migrateManifest = (manifest: ImportedManifest): BundleManifest => ({
+  ...manifest,
+  settings: { ...manifest.settings, brandTheme: manifest.settings.brandTheme ?? null },
+  images: manifest.images.map((image) => ({
+    ...image,
+    tokens: image.tokens ?? null,
+    codeFormat: storedCodeFormat(image, manifest.settings.codeFormat),
+  })),
+  flow: manifest.flow ?? EMPTY_SCREEN_FLOW,
+});
+
+export const CODE_FILE_EXTENSIONS: Record<CodeFormat, string> = {
+  'react-mui': 'jsx',
+  'react-native': 'js',
+  'flutter': 'dart',
+};
+
+const slugify = (name: string): string =>
+  name.toLowerCase().replace(/\.[^.]+$/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
+
+// Latest code written for each format, current code first since it may hold unsaved manual edits
+export const latestCodeByFormat = (image: Pick<StoredImage, 'code' | 'codeFormat' | 'history'>): Map<CodeFormat, string> => {
+  const codes = new Map<CodeFormat, string>();
+  if (image.code && image.codeFormat) codes.set(image.codeFormat, image.code);
+  for (const version of [...image.history].reverse()) {
+    if (!codes.has(version.codeFormat)) codes.set(version.codeFormat, version.code);
+  }
+  return codes;
+};
+
+export const exportProjectBundle = async (project: BundledProject): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifest: BundleManifest = {
+    bundleVersion: BUNDLE_VERSION,
+    name: project.name,
+    createdAt: project.createdAt,
+    exportedAt: Date.now(),
+    settings: project.settings,
+    images: [],
+    flow: project.flow,
+  };
+
+  project.images.forEach((image, index) => {
+    const { file, ...data } = image;
+    const folder = `screens/${String(index + 1).padStart(2, '0')}-${slugify(file.name)}`;
+    const imagePath = `${folder}/${file.name}`;
+    zip.file(imagePath, file);
+    if (image.description) zip.file(`${folder}/description.md`, image.description);
+    if (image.uiTree) zip.file(`${folder}/description.json`, serializeUIDescription(image.uiTree));
+    latestCodeByFormat(image).forEach((code, format) => {
+      zip.file(`${folder}/code/${format}.${CODE_FILE_EXTENSIONS[format]}`, code);
+    });
+    image.history.forEach((version, i) => {
+      zip.file(
+        `${folder}/history/${String(i + 1).padStart(3, '0')}-${version.source}.${CODE_FILE_EXTENSIONS[version.codeFormat]}`,
+        version.code
+      );
+    });
+    manifest.images.push({ ...data, imagePath, fileName: file.name, fileType: file.type });
+  });
+
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+// Restores a bundle as a new project; the caller saves it
+export const importProjectBundle = async (archive: Blob): Promise<BundledProject> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    throw new Error('The file is not a zip archive');
+  }
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) {
+    throw new Error(`The archive has no ${MANIFEST_PATH}; it was not exported from this app`);
+  }
+  let imported: ImportedManifest;
+  try {
+    imported = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error(`${MANIFEST_PATH} is not valid JSON`);
+  }
+  if (typeof imported.bundleVersion !== 'number' || imported.bundleVersion > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${imported.bundleVersion}; update the app to import it`);
+  }
+  const manifest = migrateManifest(imported);
+
+  const images = await Promise.all(manifest.images.map(async ({ imagePath, fileName, fileType, ...data }) => {
+    const entry = zip.file(imagePath);
+    if (!entry) {
+      throw new Error(`Missing image ${imagePath} in the archive`);
+    }
+    const file = new File([await entry.async('blob')], fileName, { type: fileType });
+    return { ...data, file };
+  }));
+
+  return {
+    id: createProjectId(),
+    name: manifest.name,
+    createdAt: Date.now(),
+    settings: manifest.settings,
+    images,
+    flow: manifest.flow,
+  };
+};
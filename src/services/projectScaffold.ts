@@ -0,0 +1,483 @@
+import JSZip from 'jszip';
+import type { CodeFormat } from './codeGenerationProvider';
+import { buildFlutterThemeModule, buildMuiThemeModule, buildNativeThemeModule, type DesignTokens } from './designTokens';
+import type { DesignPalette } from './paletteExtraction';
+
+export interface ScaffoldScreen {
+  // Display name, usually the design's file name
+  name: string;
+  code: string;
+  // Rendered inside the shared layout of a routed app
+  inLayout?: boolean;
+}
+
+export interface ScaffoldOptions {
+  projectName: string;
+  codeFormat: CodeFormat;
+  screens: ScaffoldScreen[];
+  palette?: DesignPalette | null;
+  tokens?: DesignTokens | null;
+  // Set for a routed app where screens navigate to each other; the first screen is the start route.
+  // Without it the screens are listed side by side in a tab bar.
+  navigation?: { layoutCode?: string };
+  // Components the screens import from ../components, for React and React Native apps
+  components?: Array<{ name: string; code: string }>;
+}
+
+export interface ScreenRoute {
+  // Component and file name, e.g. LoginScreen
+  component: string;
+  // Route for react-router and Flutter, e.g. /login-screen; the first screen is '/'
+  path: string;
+}
+
+// Versions the scaffold installs; other packages the screens import are added at "latest"
+const WEB_PACKAGE_VERSIONS: Record<string, string> = {
+  'react': '^18.3.1',
+  'react-dom': '^18.3.1',
+  'react-router-dom': '^7.1.1',
+  '@mui/material': '^7.1.1',
+  '@mui/icons-material': '^7.1.1',
+  '@mui/system': '^7.1.1',
+  '@emotion/react': '^11.14.0',
+  '@emotion/styled': '^11.14.0',
+  'formik': '^2.4.6',
+  'yup': '^1.6.1',
+};
+
+// Expo SDK 52 and the versions it expects
+const EXPO_PACKAGE_VERSIONS: Record<string, string> = {
+  'expo': '~52.0.0',
+  'expo-status-bar': '~2.0.0',
+  'react': '18.3.1',
+  'react-dom': '18.3.1',
+  'react-native': '0.76.9',
+  'react-native-web': '~0.19.13',
+  '@expo/metro-runtime': '~4.0.0',
+  '@expo/vector-icons': '^14.0.0',
+  '@react-native-picker/picker': '2.9.0',
+  '@react-navigation/native': '^7.0.14',
+  '@react-navigation/native-stack': '^7.2.0',
+  'react-native-screens': '~4.4.0',
+  'react-native-safe-area-context': '4.12.0',
+};
+
+const toPascalCase = (name: string): string => {
+  const pascal = name
+    .replace(/\.[^.]+$/, '')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Z]/.test(pascal) ? pascal : `Screen${pascal}`;
+};
+
+const toSnakeCase = (name: string): string =>
+  toPascalCase(name).replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+// Unique component names per screen, e.g. LoginScreen, LoginScreen2, and the route each one gets
+export const buildScreenRoutes = (names: string[]): ScreenRoute[] => {
+  const used = new Map<string, number>();
+  return names.map((name, i) => {
+    const base = toPascalCase(name);
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    const component = count > 1 ? `${base}${count}` : base;
+    return { component, path: i === 0 ? '/' : `/${toSnakeCase(component).replace(/_/g, '-')}` };
+  });
+};
+
+const nameScreens = (screens: ScaffoldScreen[]) => {
+  const routes = buildScreenRoutes(screens.map((screen) => screen.name));
+  return screens.map((screen, i) => ({ ...screen, ...routes[i] }));
+};
+
+type NamedScreen = ReturnType<typeof nameScreens>[number];
+
+// Bare package names imported by the screens ('@mui/material/Button' -> '@mui/material')
+const collectPackages = (screens: ScaffoldScreen[]): Set<string> => {
+  const packages = new Set<string>();
+  for (const { code } of screens) {
+    for (const match of code.matchAll(/(?:from\s+|import\s+|require\()\s*['"]([^'"]+)['"]/g)) {
+      const specifier = match[1];
+      if (specifier.startsWith('.') || specifier.startsWith('/')) continue;
+      const parts = specifier.split('/');
+      packages.add(specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]);
+    }
+  }
+  return packages;
+};
+
+const buildDependencies = (
+  required: string[],
+  screens: ScaffoldScreen[],
+  versions: Record<string, string>
+): Record<string, string> => {
+  const names = new Set([...required, ...collectPackages(screens)]);
+  return Object.fromEntries([...names].sort().map((name) => [name, versions[name] ?? 'latest']));
+};
+
+// The layout's and shared components' imports count towards the dependencies like a screen's
+const allSources = ({ screens, navigation, components = [] }: ScaffoldOptions): ScaffoldScreen[] => [
+  ...screens,
+  ...(navigation?.layoutCode ? [{ name: 'AppLayout', code: navigation.layoutCode }] : []),
+  ...components,
+];
+
+const toJSON = (value: unknown): string => `${JSON.stringify(value, null, 2)}\n`;
+
+const packageName = (projectName: string): string =>
+  projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'generated-app';
+
+const tabbedWebApp = (named: NamedScreen[]): string => `import { useState } from 'react';
+import { AppBar, Tab, Tabs } from '@mui/material';
+${named.map((screen) => `import ${screen.component} from './screens/${screen.component}';`).join('\n')}
+
+const screens = [
+${named.map((screen) => `  { name: ${JSON.stringify(screen.name)}, Component: ${screen.component} },`).join('\n')}
+];
+
+export default function App() {
+  const [index, setIndex] = useState(0);
+  const Screen = screens[index].Component;
+  return (
+    <>
+      {screens.length > 1 && (
+        <AppBar position="static" color="default">
+          <Tabs value={index} onChange={(_, value) => setIndex(value)} variant="scrollable">
+            {screens.map((screen, i) => <Tab key={screen.name} label={screen.name} value={i} />)}
+          </Tabs>
+        </AppBar>
+      )}
+      <Screen />
+    </>
+  );
+}
+`;
+
+// Screens inside the layout are nested under a pathless route whose element renders <Outlet />
+const routedWebApp = (named: NamedScreen[], hasLayout: boolean): string => {
+  const route = (screen: NamedScreen) => `<Route path="${screen.path}" element={<${screen.component} />} />`;
+  const inLayout = named.filter((screen) => hasLayout && screen.inLayout);
+  return `import { BrowserRouter, Route, Routes } from 'react-router-dom';
+${hasLayout ? "import AppLayout from './layout/AppLayout';\n" : ''}${named.map((screen) => `import ${screen.component} from './screens/${screen.component}';`).join('\n')}
+
+export default function App() {
+  return (
+    <BrowserRouter>
+      <Routes>
+${named.filter((screen) => !inLayout.includes(screen)).map((screen) => `        ${route(screen)}`).join('\n')}${inLayout.length > 0 ? `
+        <Route element={<AppLayout />}>
+${inLayout.map((screen) => `          ${route(screen)}`).join('\n')}
+        </Route>` : ''}
+      </Routes>
+    </BrowserRouter>
+  );
+}
+`;
+};
+
+const addViteApp = (zip: JSZip, options: ScaffoldOptions): string[] => {
+  const { projectName, screens, palette, tokens, navigation, components = [] } = options;
+  const named = nameScreens(screens);
+  zip.file('package.json', toJSON({
+    name: packageName(projectName),
+    private: true,
+    version: '0.0.0',
+    type: 'module',
+    scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+    dependencies: buildDependencies(
+      ['react', 'react-dom', '@mui/material', '@emotion/react', '@emotion/styled', ...(navigation ? ['react-router-dom'] : [])],
+      allSources(options),
+      WEB_PACKAGE_VERSIONS
+    ),
+    devDependencies: { '@vitejs/plugin-react': '^4.3.4', 'vite': '^6.0.1' },
+  }));
+  zip.file('vite.config.js', `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`);
+  zip.file('index.html', `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${projectName}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>
+`);
+  zip.file('src/theme.ts', buildMuiThemeModule(palette, tokens));
+  zip.file('src/main.jsx', `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { CssBaseline, ThemeProvider } from '@mui/material';
+import { theme } from './theme';
+import App from './App';
+
+ReactDOM.createRoot(document.getElementById('root')).render(
+  <React.StrictMode>
+    <ThemeProvider theme={theme}>
+      <CssBaseline />
+      <App />
+    </ThemeProvider>
+  </React.StrictMode>
+);
+`);
+  zip.file('src/App.jsx', navigation ? routedWebApp(named, !!navigation.layoutCode) : tabbedWebApp(named));
+  if (navigation?.layoutCode) zip.file('src/layout/AppLayout.jsx', navigation.layoutCode);
+  components.forEach((component) => zip.file(`src/components/${component.name}.jsx`, component.code));
+  return named.map((screen) => {
+    const path = `src/screens/${screen.component}.jsx`;
+    zip.file(path, screen.code);
+    return path;
+  });
+};
+
+const tabbedExpoApp = (named: NamedScreen[], palette: ScaffoldOptions['palette']): string => `import React, { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+${named.map((screen) => `import ${screen.component} from './screens/${screen.component}';`).join('\n')}
+
+const screens = [
+${named.map((screen) => `  { name: ${JSON.stringify(screen.name)}, Component: ${screen.component} },`).join('\n')}
+];
+
+export default function App() {
+  const [index, setIndex] = useState(0);
+  const Screen = screens[index].Component;
+  return (
+    <View style={styles.container}>
+      <StatusBar style="auto" />
+      {screens.length > 1 && (
+        <ScrollView horizontal style={styles.tabs} contentContainerStyle={styles.tabsContent}>
+          {screens.map((screen, i) => (
+            <Pressable key={screen.name} onPress={() => setIndex(i)} style={[styles.tab, i === index && styles.activeTab]}>
+              <Text style={i === index ? styles.activeTabText : styles.tabText}>{screen.name}</Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+      <View style={styles.screen}>
+        <Screen />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, paddingTop: 48${palette ? `, backgroundColor: '${palette.background}'` : ''} },
+  tabs: { flexGrow: 0 },
+  tabsContent: { paddingHorizontal: 12, gap: 8 },
+  tab: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 16 },
+  activeTab: { backgroundColor: '${palette?.primary ?? '#1976d2'}' },
+  tabText: { color: '${palette?.text ?? '#333333'}' },
+  activeTabText: { color: '#ffffff', fontWeight: '600' },
+  screen: { flex: 1 },
+});
+`;
+
+// A native stack with one route per screen; screens inside the layout get a wrapper route component
+const routedExpoApp = (named: NamedScreen[], hasLayout: boolean): string => {
+  const wrapped = named.filter((screen) => hasLayout && screen.inLayout);
+  return `import React from 'react';
+import { NavigationContainer } from '@react-navigation/native';
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
+import { StatusBar } from 'expo-status-bar';
+${hasLayout ? "import AppLayout from './layout/AppLayout';\n" : ''}${named.map((screen) => `import ${screen.component} from './screens/${screen.component}';`).join('\n')}
+
+const Stack = createNativeStackNavigator();
+${wrapped.map((screen) => `
+function ${screen.component}Route() {
+  return (
+    <AppLayout>
+      <${screen.component} />
+    </AppLayout>
+  );
+}
+`).join('')}
+export default function App() {
+  return (
+    <NavigationContainer>
+      <StatusBar style="auto" />
+      <Stack.Navigator initialRouteName="${named[0].component}" screenOptions={{ headerShown: false }}>
+${named.map((screen) => `        <Stack.Screen name="${screen.component}" component={${screen.component}${wrapped.includes(screen) ? 'Route' : ''}} />`).join('\n')}
+      </Stack.Navigator>
+    </NavigationContainer>
+  );
+}
+`;
+};
+
+const addExpoApp = (zip: JSZip, options: ScaffoldOptions): string[] => {
+  const { projectName, screens, palette, tokens, navigation, components = [] } = options;
+  const named = nameScreens(screens);
+  zip.file('package.json', toJSON({
+    name: packageName(projectName),
+    version: '1.0.0',
+    main: 'node_modules/expo/AppEntry.js',
+    scripts: { dev: 'expo start', start: 'expo start', android: 'expo start --android', ios: 'expo start --ios', web: 'expo start --web' },
+    dependencies: buildDependencies(
+      [
+        'expo', 'expo-status-bar', 'react', 'react-dom', 'react-native', 'react-native-web', '@expo/metro-runtime',
+        ...(navigation
+          ? ['@react-navigation/native', '@react-navigation/native-stack', 'react-native-screens', 'react-native-safe-area-context']
+          : []),
+      ],
+      allSources(options),
+      EXPO_PACKAGE_VERSIONS
+    ),
+    private: true,
+  }));
+  zip.file('app.json', toJSON({
+    expo: {
+      name: projectName,
+      slug: packageName(projectName),
+      version: '1.0.0',
+      orientation: 'portrait',
+      userInterfaceStyle: 'light',
+      ...(palette ? { backgroundColor: palette.background, primaryColor: palette.primary } : {}),
+    },
+  }));
+  zip.file('babel.config.js', `module.exports = function (api) {
+  api.cache(true);
+  return { presets: ['babel-preset-expo'] };
+};
+`);
+  zip.file('App.js', navigation ? routedExpoApp(named, !!navigation.layoutCode) : tabbedExpoApp(named, palette));
+  // Generated screens declare the same theme object inline; shared code can import it from here
+  if (palette || tokens) zip.file('theme.js', buildNativeThemeModule(palette, tokens));
+  if (navigation?.layoutCode) zip.file('layout/AppLayout.js', navigation.layoutCode);
+  components.forEach((component) => zip.file(`components/${component.name}.js`, component.code));
+  return named.map((screen) => {
+    const path = `screens/${screen.component}.js`;
+    zip.file(path, screen.code);
+    return path;
+  });
+};
+
+// Each screen keeps its own MyApp and main(); importing the files with a prefix avoids name clashes.
+// In a routed app the layout's MyApp takes the screen as its child.
+const addFlutterApp = (zip: JSZip, { projectName, screens, palette, tokens, navigation }: ScaffoldOptions): string[] => {
+  const named = nameScreens(screens).map((screen) => ({ ...screen, library: toSnakeCase(screen.component) }));
+  const name = packageName(projectName).replace(/-/g, '_').replace(/^(\d)/, 'app_$1');
+  zip.file('pubspec.yaml', `name: ${name}
+description: ${JSON.stringify(`${projectName}, generated from design images`)}
+publish_to: 'none'
+version: 1.0.0+1
+
+environment:
+  sdk: '>=3.0.0 <4.0.0'
+
+dependencies:
+  flutter:
+    sdk: flutter
+  cupertino_icons: ^1.0.8
+
+dev_dependencies:
+  flutter_test:
+    sdk: flutter
+
+flutter:
+  uses-material-design: true
+`);
+  zip.file('lib/theme.dart', buildFlutterThemeModule(palette, tokens));
+  zip.file('lib/main.dart', `import 'package:flutter/material.dart';
+import 'theme.dart';
+${navigation?.layoutCode ? "import 'layout/app_layout.dart' as app_layout;\n" : ''}${named.map((screen) => `import 'screens/${screen.library}.dart' as ${screen.library};`).join('\n')}
+
+void main() => runApp(const ScreensApp());
+
+class ScreensApp extends StatelessWidget {
+  const ScreensApp({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return MaterialApp(
+      title: ${JSON.stringify(projectName)},
+      debugShowCheckedModeBanner: false,
+      theme: appTheme,
+      ${navigation ? `initialRoute: '/',
+      routes: {
+${named.map((screen) => `        '${screen.path}': (_) => ${navigation.layoutCode && screen.inLayout
+    ? `app_layout.MyApp(child: ${screen.library}.MyApp())`
+    : `${screen.library}.MyApp()`},`).join('\n')}
+      },` : `home: ${named.length === 1 ? `${named[0].library}.MyApp()` : 'const ScreenIndex()'},`}
+    );
+  }
+}
+${navigation || named.length === 1 ? '' : `
+class ScreenIndex extends StatelessWidget {
+  const ScreenIndex({super.key});
+
+  static final screens = <String, WidgetBuilder>{
+${named.map((screen) => `    ${JSON.stringify(screen.name)}: (_) => ${screen.library}.MyApp(),`).join('\n')}
+  };
+
+  @override
+  Widget build(BuildContext context) {
+    return Scaffold(
+      appBar: AppBar(title: const Text(${JSON.stringify(projectName)})),
+      body: ListView(
+        children: [
+          for (final entry in screens.entries)
+            ListTile(
+              title: Text(entry.key),
+              trailing: const Icon(Icons.chevron_right),
+              onTap: () => Navigator.of(context).push(MaterialPageRoute(builder: entry.value)),
+            ),
+        ],
+      ),
+    );
+  }
+}
+`}`);
+  if (navigation?.layoutCode) zip.file('lib/layout/app_layout.dart', navigation.layoutCode);
+  return named.map((screen) => {
+    const path = `lib/screens/${screen.library}.dart`;
+    zip.file(path, screen.code);
+    return path;
+  });
+};
+
+const RUN_INSTRUCTIONS: Record<CodeFormat, string> = {
+  'react-mui': 'npm install\nnpm run dev',
+  'react-native': 'npm install\nnpm run dev   # then press w for web, or scan the QR code with Expo Go',
+  'flutter': 'flutter create .   # adds the android/, ios/ and web/ platform folders\nflutter pub get\nflutter run',
+};
+
+// A complete, runnable app for the chosen format with every screen wired in
+export const buildProjectScaffold = async (options: ScaffoldOptions): Promise<Blob> => {
+  if (options.screens.length === 0) {
+    throw new Error('There is no generated code to export');
+  }
+  const zip = new JSZip();
+  const addApp = { 'react-mui': addViteApp, 'react-native': addExpoApp, 'flutter': addFlutterApp }[options.codeFormat];
+  const screenPaths = addApp(zip, options);
+  zip.file('README.md', `# ${options.projectName}
+
+Generated from ${options.screens.length} design image${options.screens.length === 1 ? '' : 's'} (${options.codeFormat}).
+
+## Run
+
+\`\`\`sh
+${RUN_INSTRUCTIONS[options.codeFormat]}
+\`\`\`
+
+## Screens
+
+${options.screens.map((screen, i) => `- ${screen.name}: \`${screenPaths[i]}\`` +
+  (options.navigation && i === 0 ? ' (start screen)' : '') +
+  (options.navigation?.layoutCode && screen.inLayout ? ' (inside the shared layout)' : '')).join('\n')}
+${options.components?.length ? `
+## Shared components
+
+${options.components.map((component) => `- ${component.name}`).join('\n')}
+` : ''}`);
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
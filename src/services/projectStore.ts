@@ -0,0 +1,179 @@
+import type { ImageAnalysis } from '../analysis/protocol';
+import type { ChatTurn } from '../components/RefinementChat';
+import type { BrandTheme } from './brandTheme';
+import type { CodeFormat, DeviceType } from './codeGenerationProvider';
+import type { CodeVersion } from './codeHistory';
+import type { DesignTokens } from './designTokens';
+import type { DesignPalette } from './paletteExtraction';
+import { EMPTY_SCREEN_FLOW, type ScreenFlow } from './screenFlow';
+import type { UIDescriptionTree } from './uiSchema';
+
+// The durable part of an uploaded image; previews and in-flight flags are rebuilt on load
+export interface StoredImage {
+  id: string;
+  file: File;
+  uiTree: UIDescriptionTree | null;
+  description: string;
+  isDescriptionEdited: boolean;
+  code: string;
+  // Format the current code was written in; the format selector can change without touching the code
+  codeFormat: CodeFormat | null;
+  analysis: ImageAnalysis | null;
+  palette: DesignPalette | null;
+  tokens: DesignTokens | null;
+  chat: ChatTurn[];
+  history: CodeVersion[];
+}
+
+export interface ProjectSettings {
+  userPrompt: string;
+  deviceType: DeviceType;
+  codeFormat: CodeFormat;
+  viewportWidth: number;
+  providerId: string;
+  selectedImageId: string;
+  // Imported company tokens every screen in the project is generated and checked against
+  brandTheme: BrandTheme | null;
+}
+
+// What the project list shows, stored apart from the image blobs so listing stays cheap
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  imageCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Project extends ProjectSummary {
+  settings: ProjectSettings;
+  images: StoredImage[];
+  flow: ScreenFlow;
+}
+
+const DB_NAME = 'image-to-react';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'projects';
+const DATA_STORE = 'projectData';
+
+// Projects saved before screen flows, brand themes or per-image code formats existed lack them
+type ProjectData = Pick<Project, 'id'> & {
+  settings: Omit<ProjectSettings, 'brandTheme'> & { brandTheme?: BrandTheme | null };
+  images: Array<Omit<StoredImage, 'codeFormat'> & { codeFormat?: CodeFormat | null }>;
+  flow?: ScreenFlow;
+};
+
+// Older code took its format from the selector; the newest matching version is the best record of it
+export const storedCodeFormat = (
+  image: Pick<StoredImage, 'code' | 'history'> & { codeFormat?: CodeFormat | null },
+  fallback: CodeFormat
+): CodeFormat | null => {
+  if (image.codeFormat !== undefined) return image.codeFormat;
+  if (!image.code) return null;
+  return [...image.history].reverse().find((version) => version.code === image.code)?.codeFormat ?? fallback;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const whenComplete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+export const createProjectId = (): string => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+// Projects in IndexedDB: image files are stored as blobs next to the descriptions, code and settings
+class ProjectStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+      };
+      this.dbPromise = toPromise(request);
+      // A failed open (private mode, blocked upgrade) is retried on the next call
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Most recently updated first
+  async list(): Promise<ProjectSummary[]> {
+    const db = await this.open();
+    const summaries = await toPromise(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll() as IDBRequest<ProjectSummary[]>);
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async load(id: string): Promise<Project | null> {
+    const db = await this.open();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE]);
+    const [summary, data] = await Promise.all([
+      toPromise(transaction.objectStore(SUMMARY_STORE).get(id) as IDBRequest<ProjectSummary | undefined>),
+      toPromise(transaction.objectStore(DATA_STORE).get(id) as IDBRequest<ProjectData | undefined>),
+    ]);
+    return summary && data
+      ? {
+        ...summary,
+        settings: { ...data.settings, brandTheme: data.settings.brandTheme ?? null },
+        images: data.images.map((image) => ({ ...image, codeFormat: storedCodeFormat(image, data.settings.codeFormat) })),
+        flow: data.flow ?? EMPTY_SCREEN_FLOW,
+      }
+      : null;
+  }
+
+  async save(project: Omit<Project, 'imageCount' | 'updatedAt'>): Promise<ProjectSummary> {
+    const db = await this.open();
+    const summary: ProjectSummary = {
+      id: project.id,
+      name: project.name,
+      imageCount: project.images.length,
+      createdAt: project.createdAt,
+      updatedAt: Date.now(),
+    };
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    transaction.objectStore(DATA_STORE).put({ id: project.id, settings: project.settings, images: project.images, flow: project.flow });
+    await whenComplete(transaction);
+    return summary;
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(SUMMARY_STORE, 'readwrite');
+    const store = transaction.objectStore(SUMMARY_STORE);
+    const summary = await toPromise(store.get(id) as IDBRequest<ProjectSummary | undefined>);
+    if (summary) store.put({ ...summary, name, updatedAt: Date.now() });
+    await whenComplete(transaction);
+  }
+
+  async duplicate(id: string): Promise<ProjectSummary> {
+    const project = await this.load(id);
+    if (!project) {
+      throw new Error(`Project ${id} no longer exists`);
+    }
+    const now = Date.now();
+    return this.save({ ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now });
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    await whenComplete(transaction);
+  }
+}
+
+export const projectStore = new ProjectStore();
@@ -0,0 +1,17 @@
+import { providerRegistry } from './codeGenerationProvider';
+import { enhancedAzureOpenAIService } from './azureOpenAIService';
+import { geminiService } from './geminiService';
+import { mockService } from './mockService';
+import { openAICompatibleService } from './openAICompatibleService';
+
+// Register every available backend once; the UI picks among them by id
+providerRegistry.register(enhancedAzureOpenAIService);
+providerRegistry.register(geminiService);
+providerRegistry.register(openAICompatibleService);
+providerRegistry.register(mockService);
+
+const DEFAULT_PROVIDER: string = import.meta.env.VITE_DEFAULT_PROVIDER || enhancedAzureOpenAIService.id;
+
+export const defaultProviderId = providerRegistry.has(DEFAULT_PROVIDER) ? DEFAULT_PROVIDER : enhancedAzureOpenAIService.id;
+
+export { providerRegistry };
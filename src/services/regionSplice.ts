@@ -0,0 +1,243 @@
+import type { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { parseComponentCode, traverse } from './codeValidation';
+import { flattenNodes, type UIBounds, type UIDescriptionTree, type UINode } from './uiSchema';
+
+type JSXNode = t.JSXElement | t.JSXFragment;
+
+// A JSX element of the current code that renders the selected region
+export interface RegionTarget {
+  // Position in the JSX structure ("0.2.1" is the second child of the third child of the first tree),
+  // which a revision that only touches this element leaves unchanged
+  key: string;
+  tagName: string;
+  start: number;
+  end: number;
+  // 1-based lines, for the prompt and the diff dialog
+  line: number;
+  endLine: number;
+  source: string;
+}
+
+interface IndexedElement {
+  key: string;
+  tagName: string;
+  node: JSXNode;
+}
+
+// Attributes whose string values are visible text rather than configuration
+const TEXT_ATTRIBUTES = new Set(['label', 'placeholder', 'title', 'alt', 'aria-label', 'helperText', 'text']);
+
+const normalizeText = (text: string): string => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const getTagName = (node: JSXNode): string => {
+  if (t.isJSXFragment(node)) return 'Fragment';
+  const name = node.openingElement.name;
+  if (t.isJSXIdentifier(name)) return name.name;
+  if (t.isJSXMemberExpression(name)) return `${t.isJSXIdentifier(name.object) ? name.object.name : '?'}.${name.property.name}`;
+  return `${name.namespace.name}:${name.name.name}`;
+};
+
+// Every JSX element and fragment keyed by its position among the JSX children of its nearest JSX ancestor
+const indexElements = (ast: t.File): IndexedElement[] => {
+  const childCounts = new Map<t.Node | null, number>();
+  const keys = new Map<t.Node, string>();
+  const elements: IndexedElement[] = [];
+  traverse(ast, {
+    enter(path: NodePath) {
+      if (!path.isJSXElement() && !path.isJSXFragment()) return;
+      const parent = path.findParent((ancestor) => ancestor.isJSXElement() || ancestor.isJSXFragment())?.node ?? null;
+      const index = childCounts.get(parent) ?? 0;
+      childCounts.set(parent, index + 1);
+      const key = parent ? `${keys.get(parent)}.${index}` : `${index}`;
+      keys.set(path.node, key);
+      elements.push({ key, tagName: getTagName(path.node), node: path.node });
+    },
+  });
+  return elements;
+};
+
+// Visible strings inside an element: JSX text, string children and text-like attributes
+const collectTexts = (node: JSXNode): string[] => {
+  const texts: string[] = [];
+  t.traverseFast(node, (child) => {
+    if (t.isJSXText(child)) {
+      texts.push(child.value);
+    } else if (t.isJSXExpressionContainer(child) && t.isStringLiteral(child.expression)) {
+      texts.push(child.expression.value);
+    } else if (t.isJSXExpressionContainer(child) && t.isTemplateLiteral(child.expression)) {
+      texts.push(...child.expression.quasis.map((quasi) => quasi.value.cooked ?? ''));
+    } else if (
+      t.isJSXAttribute(child) && t.isJSXIdentifier(child.name) && TEXT_ATTRIBUTES.has(child.name.name) &&
+      t.isStringLiteral(child.value)
+    ) {
+      texts.push(child.value.value);
+    }
+  });
+  return texts.map(normalizeText).filter((text) => text.length > 1);
+};
+
+const textsMatch = (a: string, b: string): boolean => a.includes(b) || b.includes(a);
+
+const toTarget = (code: string, element: IndexedElement): RegionTarget => ({
+  key: element.key,
+  tagName: element.tagName,
+  start: element.node.start!,
+  end: element.node.end!,
+  line: element.node.loc!.start.line,
+  endLine: element.node.loc!.end.line,
+  source: code.slice(element.node.start!, element.node.end!),
+});
+
+// Strings of the tree nodes whose center lies inside the region
+export const collectRegionTexts = (tree: UIDescriptionTree, region: UIBounds): string[] =>
+  flattenNodes(tree)
+    .filter(({ node }) => {
+      const centerX = node.bounds.x + node.bounds.width / 2;
+      const centerY = node.bounds.y + node.bounds.height / 2;
+      return centerX >= region.x && centerX <= region.x + region.width &&
+        centerY >= region.y && centerY <= region.y + region.height;
+    })
+    .flatMap(({ node }) => (node.text ? [node.text] : []));
+
+// A description of a cropped region, moved back into the coordinates of the whole design
+export const placeRegionDescription = (tree: UIDescriptionTree, region: UIBounds): UIDescriptionTree => {
+  const place = (node: UINode): UINode => ({
+    ...node,
+    bounds: { ...node.bounds, x: node.bounds.x + region.x, y: node.bounds.y + region.y },
+    ...(node.children ? { children: node.children.map(place) } : {}),
+  });
+  return { ...tree, nodes: tree.nodes.map(place) };
+};
+
+// Picks the smallest element whose text best matches the region: it should render all of the
+// region's strings (recall) and as few strings from outside it as possible (precision)
+export const findRegionElement = (code: string, regionTexts: string[]): RegionTarget | null => {
+  const wanted = [...new Set(regionTexts.map(normalizeText).filter((text) => text.length > 1))];
+  if (wanted.length === 0) return null;
+  let ast: t.File;
+  try {
+    ast = parseComponentCode(code);
+  } catch {
+    return null;
+  }
+
+  let best: { element: IndexedElement; score: number; size: number } | null = null;
+  for (const element of indexElements(ast)) {
+    if (!t.isJSXElement(element.node)) continue;
+    const texts = collectTexts(element.node);
+    if (texts.length === 0) continue;
+    const recall = wanted.filter((text) => texts.some((own) => textsMatch(own, text))).length / wanted.length;
+    if (recall === 0) continue;
+    const precision = texts.filter((own) => wanted.some((text) => textsMatch(own, text))).length / texts.length;
+    const score = recall * precision;
+    const size = element.node.end! - element.node.start!;
+    if (!best || score > best.score || (score === best.score && size < best.size)) {
+      best = { element, score, size };
+    }
+  }
+  return best && toTarget(code, best.element);
+};
+
+// Identifiers an element refers to, used to pick the imports and styles it needs
+const collectReferences = (node: t.Node): Set<string> => {
+  const names = new Set<string>();
+  t.traverseFast(node, (child) => {
+    if (t.isJSXIdentifier(child) || t.isIdentifier(child)) names.add(child.name);
+  });
+  return names;
+};
+
+const findStyleSheet = (ast: t.File): t.ObjectExpression | null => {
+  let styles: t.ObjectExpression | null = null;
+  t.traverseFast(ast, (node) => {
+    if (
+      !styles && t.isCallExpression(node) && t.isMemberExpression(node.callee) &&
+      t.isIdentifier(node.callee.object, { name: 'StyleSheet' }) && t.isIdentifier(node.callee.property, { name: 'create' }) &&
+      t.isObjectExpression(node.arguments[0])
+    ) {
+      styles = node.arguments[0];
+    }
+  });
+  return styles;
+};
+
+const propertyName = (property: t.ObjectExpression['properties'][number]): string | null =>
+  t.isObjectProperty(property) && t.isIdentifier(property.key) ? property.key.name
+    : t.isObjectProperty(property) && t.isStringLiteral(property.key) ? property.key.value
+    : null;
+
+interface TextEdit {
+  at: number;
+  text: string;
+}
+
+// Imports and StyleSheet entries the new element uses that the original file lacks
+const collectSupportEdits = (code: string, revised: string, revisedAst: t.File, replacement: JSXNode): TextEdit[] => {
+  const ast = parseComponentCode(code);
+  const references = collectReferences(replacement);
+  const imports = ast.program.body.filter((node): node is t.ImportDeclaration => t.isImportDeclaration(node));
+  const declared = new Set(imports.flatMap((node) => node.specifiers.map((specifier) => specifier.local.name)));
+  const edits: TextEdit[] = [];
+
+  for (const declaration of revisedAst.program.body) {
+    if (!t.isImportDeclaration(declaration)) continue;
+    const missing = declaration.specifiers.filter((specifier) =>
+      references.has(specifier.local.name) && !declared.has(specifier.local.name)
+    );
+    if (missing.length === 0) continue;
+    const existing = imports.find((node) => node.source.value === declaration.source.value);
+    const lastNamed = existing?.specifiers.filter((specifier) => t.isImportSpecifier(specifier)).pop();
+    const named = missing.filter((specifier) => t.isImportSpecifier(specifier));
+    if (lastNamed && named.length === missing.length) {
+      edits.push({ at: lastNamed.end!, text: named.map((specifier) => `, ${revised.slice(specifier.start!, specifier.end!)}`).join('') });
+    } else {
+      const anchor = imports[imports.length - 1]?.end ?? 0;
+      edits.push({ at: anchor, text: `${anchor > 0 ? '\n' : ''}${revised.slice(declaration.start!, declaration.end!)}${anchor > 0 ? '' : '\n'}` });
+    }
+  }
+
+  const styles = findStyleSheet(ast);
+  const revisedStyles = findStyleSheet(revisedAst);
+  if (styles && revisedStyles) {
+    const existingStyles = new Set(styles.properties.map(propertyName));
+    const added = revisedStyles.properties.filter((property) => {
+      const name = propertyName(property);
+      return name !== null && references.has(name) && !existingStyles.has(name);
+    });
+    const last = styles.properties[styles.properties.length - 1];
+    if (added.length > 0 && last) {
+      edits.push({ at: last.end!, text: added.map((property) => `,\n  ${revised.slice(property.start!, property.end!)}`).join('') });
+    }
+  }
+  return edits;
+};
+
+// Replaces only the target element with its counterpart from a full-file revision, keeping manual
+// edits elsewhere in the original, and brings over the imports and styles the new element needs
+export const spliceRegion = (original: string, target: RegionTarget, revised: string): string => {
+  let revisedAst: t.File;
+  try {
+    revisedAst = parseComponentCode(revised);
+  } catch (error) {
+    throw new Error(`The regenerated code could not be parsed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const revisedElements = new Map(indexElements(revisedAst).map((element) => [element.key, element]));
+  const originalElements = new Map(indexElements(parseComponentCode(original)).map((element) => [element.key, element]));
+
+  // The element and every JSX ancestor must still be where they were, otherwise the model restructured the file
+  const segments = target.key.split('.');
+  const ancestorsMatch = segments.slice(0, -1).every((_, i) => {
+    const key = segments.slice(0, i + 1).join('.');
+    return revisedElements.get(key)?.tagName === originalElements.get(key)?.tagName;
+  });
+  const replacement = revisedElements.get(target.key);
+  if (!replacement || !ancestorsMatch || !t.isJSXElement(replacement.node)) {
+    throw new Error(`Could not find the regenerated <${target.tagName}> in the revised code`);
+  }
+
+  const spliced = original.slice(0, target.start) + revised.slice(replacement.node.start!, replacement.node.end!) +
+    original.slice(target.end);
+  const edits = collectSupportEdits(spliced, revised, revisedAst, replacement.node).sort((a, b) => b.at - a.at);
+  return edits.reduce((code, edit) => code.slice(0, edit.at) + edit.text + code.slice(edit.at), spliced);
+};
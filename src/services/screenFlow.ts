@@ -0,0 +1,100 @@
+import type { UIBounds, UIDescriptionTree, UINode, UINodeType } from './uiSchema';
+
+// "Submit on Login goes to Dashboard"
+export interface ScreenTransition {
+  id: string;
+  fromImageId: string;
+  // The element that triggers the move, as the user names it, e.g. 'Submit button'
+  trigger: string;
+  toImageId: string;
+}
+
+// Linked screens in app order; the first one is where the app starts
+export interface ScreenFlow {
+  screenIds: string[];
+  transitions: ScreenTransition[];
+}
+
+export const EMPTY_SCREEN_FLOW: ScreenFlow = { screenIds: [], transitions: [] };
+
+export const createTransitionId = (): string => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+// Unlinks a screen and every transition into or out of it
+export const removeFlowScreen = (flow: ScreenFlow, imageId: string): ScreenFlow => ({
+  screenIds: flow.screenIds.filter((id) => id !== imageId),
+  transitions: flow.transitions.filter((t) => t.fromImageId !== imageId && t.toImageId !== imageId),
+});
+
+export const moveFlowScreen = (flow: ScreenFlow, imageId: string, offset: number): ScreenFlow => {
+  const from = flow.screenIds.indexOf(imageId);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= flow.screenIds.length) return flow;
+  const screenIds = [...flow.screenIds];
+  screenIds.splice(to, 0, ...screenIds.splice(from, 1));
+  return { ...flow, screenIds };
+};
+
+// Node types that make up an app shell rather than one screen's content
+const LAYOUT_NODE_TYPES: UINodeType[] = ['navigation', 'sidebar', 'tabs'];
+
+// Minimum overlap, relative to each canvas, for two screens' bars to count as the same one
+const MIN_LAYOUT_OVERLAP = 0.6;
+
+export interface SharedLayout {
+  // The screen whose code the layout is cut from
+  referenceId: string;
+  nodes: UINode[];
+  // Screens that show every layout node, in flow order, with their own copies of the nodes
+  screens: Array<{ id: string; nodes: UINode[] }>;
+}
+
+// Bounds as fractions of the canvas, so designs exported at different sizes compare
+const relativeBounds = ({ x, y, width, height }: UIBounds, tree: UIDescriptionTree): UIBounds => ({
+  x: x / tree.canvas.width,
+  y: y / tree.canvas.height,
+  width: width / tree.canvas.width,
+  height: height / tree.canvas.height,
+});
+
+const overlap = (a: UIBounds, b: UIBounds): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+// App bars, sidebars and tab bars at the top two levels of the tree
+const layoutCandidates = (tree: UIDescriptionTree): UINode[] =>
+  [...tree.nodes, ...tree.nodes.flatMap((node) => node.children ?? [])]
+    .filter((node) => LAYOUT_NODE_TYPES.includes(node.type));
+
+const findMatchingNode = (node: UINode, nodeTree: UIDescriptionTree, other: UIDescriptionTree): UINode | undefined =>
+  layoutCandidates(other).find((candidate) =>
+    candidate.type === node.type &&
+    overlap(relativeBounds(candidate.bounds, other), relativeBounds(node.bounds, nodeTree)) >= MIN_LAYOUT_OVERLAP
+  );
+
+// Finds the app shell repeated across screens so it is generated once instead of per screen.
+// The screen sharing the most bars with the others is the reference; screens lacking any of its
+// shared bars (a login page without the sidebar, say) are left outside the layout.
+export const findSharedLayout = (screens: Array<{ id: string; tree: UIDescriptionTree }>): SharedLayout | null => {
+  let best: SharedLayout | null = null;
+  for (const reference of screens) {
+    const others = screens.filter((screen) => screen.id !== reference.id);
+    const nodes = layoutCandidates(reference.tree).filter((node) =>
+      others.some((other) => findMatchingNode(node, reference.tree, other.tree))
+    );
+    if (nodes.length === 0) continue;
+    const members = screens.flatMap((screen) => {
+      const matches = nodes.map((node) => findMatchingNode(node, reference.tree, screen.tree));
+      return matches.every(Boolean) ? [{ id: screen.id, nodes: matches as UINode[] }] : [];
+    });
+    if (members.length < 2) continue;
+    if (!best || members.length > best.screens.length ||
+      (members.length === best.screens.length && nodes.length > best.nodes.length)) {
+      best = { referenceId: reference.id, nodes, screens: members };
+    }
+  }
+  return best;
+};
@@ -0,0 +1,485 @@
+import type { NodePath, Scope } from '@babel/traverse';
+import * as t from '@babel/types';
+import { parseComponentCode, traverse } from './codeValidation';
+
+export interface ExtractionScreen {
+  id: string;
+  name: string;
+  code: string;
+}
+
+// One place a shared component replaces duplicated JSX
+export interface SharedComponentOccurrence {
+  screenId: string;
+  start: number;
+  end: number;
+  // 1-based, for the list of places in the dialog
+  line: number;
+  // JSX attribute value source for each prop, e.g. '"Sign in"' or '{handleSubmit}'
+  props: Record<string, string>;
+  // The element's key attribute value, kept on the replacement when it is rendered in a list
+  key?: string;
+}
+
+export interface SharedComponentProposal {
+  id: string;
+  // Suggested name; the user can change it before extracting
+  name: string;
+  tagName: string;
+  elementCount: number;
+  propNames: string[];
+  // The element with its differing parts replaced by props, indented for the return statement
+  template: string;
+  imports: string[];
+  occurrences: SharedComponentOccurrence[];
+}
+
+export interface SharedComponentAnalysis {
+  proposals: SharedComponentProposal[];
+  // Screens whose code does not parse and was left out
+  unparsed: string[];
+}
+
+export interface SharedComponentFile {
+  name: string;
+  code: string;
+}
+
+// Smallest subtree worth a component of its own, counted in JSX elements
+const MIN_ELEMENTS = 3;
+const MAX_PROPOSALS = 12;
+
+// Where the scaffold puts components relative to the screens
+const COMPONENTS_IMPORT_DIR = '../components';
+
+const COMPONENT_NAME_PATTERN = /^[A-Z][A-Za-z0-9]*$/;
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const applyEdits = (code: string, edits: TextEdit[], offset = 0): string =>
+  [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start - offset) + edit.text + result.slice(edit.end - offset), code);
+
+const getTagName = (name: t.JSXOpeningElement['name']): string => {
+  if (t.isJSXIdentifier(name)) return name.name;
+  if (t.isJSXMemberExpression(name)) return `${getTagName(name.object)}.${name.property.name}`;
+  return `${name.namespace.name}:${name.name.name}`;
+};
+
+const rootIdentifier = (name: t.JSXOpeningElement['name']): string | null =>
+  t.isJSXIdentifier(name) ? name.name : t.isJSXMemberExpression(name) ? rootIdentifier(name.object) : null;
+
+const isIntrinsic = (tag: string): boolean => /^[a-z]/.test(tag) && !tag.includes('.');
+
+const getAttributeName = (attribute: t.JSXAttribute): string =>
+  t.isJSXIdentifier(attribute.name) ? attribute.name.name : `${attribute.name.namespace.name}:${attribute.name.name.name}`;
+
+// Children that render something; indentation-only text and empty {} are ignored
+const meaningfulChildren = (path: NodePath<t.JSXElement>): NodePath<t.JSXElement['children'][number]>[] =>
+  path.get('children').filter((child) =>
+    !(child.isJSXText() && !child.node.value.trim()) &&
+    !(child.isJSXExpressionContainer() && t.isJSXEmptyExpression(child.node.expression))
+  );
+
+const importOf = (path: NodePath, name: string): t.ImportDeclaration | null => {
+  const binding = path.scope.getBinding(name);
+  return binding?.kind === 'module' && t.isImportDeclaration(binding.path.parent) ? binding.path.parent : null;
+};
+
+interface Fingerprint {
+  signature: string;
+  elementCount: number;
+}
+
+// Tags (with the package they come from), attribute names and the kinds of children, but not text
+// or attribute values, which become props. Elements using local components, spreads or refs can't move.
+const fingerprint = (path: NodePath<t.JSXElement>, memo: Map<t.Node, Fingerprint | null>): Fingerprint | null => {
+  if (memo.has(path.node)) return memo.get(path.node)!;
+  const compute = (): Fingerprint | null => {
+    const opening = path.node.openingElement;
+    const tag = getTagName(opening.name);
+    let origin = '';
+    if (!isIntrinsic(tag)) {
+      const root = rootIdentifier(opening.name);
+      const declaration = root ? importOf(path, root) : null;
+      if (!declaration) return null;
+      origin = declaration.source.value;
+    }
+    const attributes: string[] = [];
+    for (const attribute of opening.attributes) {
+      if (t.isJSXSpreadAttribute(attribute) || getAttributeName(attribute) === 'ref') return null;
+      // Keys only matter to the list rendering the element
+      if (getAttributeName(attribute) === 'key') continue;
+      const kind = attribute.value === null ? 'flag' : t.isStringLiteral(attribute.value) ? 'string' : 'expression';
+      attributes.push(`${getAttributeName(attribute)}:${kind}`);
+    }
+    let elementCount = 1;
+    const children: string[] = [];
+    for (const child of meaningfulChildren(path)) {
+      if (child.isJSXElement()) {
+        const nested = fingerprint(child, memo);
+        if (!nested) return null;
+        elementCount += nested.elementCount;
+        children.push(nested.signature);
+      } else {
+        children.push('#value');
+      }
+    }
+    return { signature: `${tag}@${origin}(${attributes.sort().join(',')})[${children.join(';')}]`, elementCount };
+  };
+  const result = compute();
+  memo.set(path.node, result);
+  return result;
+};
+
+// True when an expression only refers to imports and its own parameters, so it reads the same in a
+// component file; anything else (state, handlers, styles) has to be passed in as a prop
+const isSelfContained = (path: NodePath): boolean => {
+  const { start, end } = path.node;
+  const resolves = (name: string, scope: Scope): boolean => {
+    const binding = scope.getBinding(name);
+    return !!binding && (binding.kind === 'module' || (binding.identifier.start! >= start! && binding.identifier.end! <= end!));
+  };
+  if (path.isIdentifier()) return resolves(path.node.name, path.scope);
+  if (path.isThisExpression()) return false;
+  let selfContained = true;
+  path.traverse({
+    ThisExpression(thisPath) {
+      selfContained = false;
+      thisPath.stop();
+    },
+    ReferencedIdentifier(identifierPath) {
+      if (!resolves((identifierPath.node as t.Identifier | t.JSXIdentifier).name, identifierPath.scope)) {
+        selfContained = false;
+        identifierPath.stop();
+      }
+    },
+  });
+  return selfContained;
+};
+
+interface Slot {
+  hint: string;
+  // Attribute value source at each occurrence
+  values: string[];
+  // The part of the first occurrence replaced by {prop} in the component
+  start: number;
+  end: number;
+}
+
+const toCamelCase = (name: string): string => name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+// A children attribute would clash with the component's own children
+const PROP_HINTS: Record<string, string> = { children: 'content' };
+
+const quoteText = (text: string): string => (text.includes('"') ? `{${JSON.stringify(text)}}` : `"${text}"`);
+
+// Walks the occurrences side by side; the fingerprint guarantees they have the same shape
+const collectSlots = (
+  paths: NodePath<t.JSXElement>[],
+  codes: string[],
+  slots: Slot[],
+  constantTexts: string[],
+  removals: TextEdit[]
+) => {
+  const source = (i: number, node: t.Node) => codes[i].slice(node.start!, node.end!);
+
+  paths[0].node.openingElement.attributes.forEach((first) => {
+    const attribute = first as t.JSXAttribute;
+    const name = getAttributeName(attribute);
+    if (name === 'key') {
+      let start = attribute.start!;
+      while (/\s/.test(codes[0][start - 1])) start--;
+      removals.push({ start, end: attribute.end!, text: '' });
+      return;
+    }
+    if (!attribute.value) return;
+    const matches = paths.map((path) => path.node.openingElement.attributes
+      .find((candidate) => getAttributeName(candidate as t.JSXAttribute) === name) as t.JSXAttribute);
+    const hint = PROP_HINTS[name] ?? toCamelCase(name);
+    if (t.isStringLiteral(attribute.value)) {
+      const values = matches.map((match) => (match.value as t.StringLiteral).value);
+      if (values.every((value) => value === values[0])) return;
+      slots.push({
+        hint,
+        values: matches.map((match, i) => source(i, match.value!)),
+        start: attribute.value.start!,
+        end: attribute.value.end!,
+      });
+    } else if (t.isJSXExpressionContainer(attribute.value) && !t.isJSXEmptyExpression(attribute.value.expression)) {
+      const expressions = matches.map((match, i) => {
+        const index = paths[i].node.openingElement.attributes.indexOf(match);
+        return paths[i].get('openingElement').get('attributes')[index].get('value') as NodePath<t.JSXExpressionContainer>;
+      }).map((container) => container.get('expression'));
+      const sources = expressions.map((expression, i) => source(i, expression.node));
+      if (sources.every((value) => value === sources[0]) && expressions.every(isSelfContained)) return;
+      slots.push({
+        hint,
+        values: sources.map((value) => `{${value}}`),
+        start: attribute.value.start!,
+        end: attribute.value.end!,
+      });
+    }
+  });
+
+  const childLists = paths.map(meaningfulChildren);
+  childLists[0].forEach((child, index) => {
+    const matches = childLists.map((children) => children[index]);
+    if (child.isJSXElement()) {
+      collectSlots(matches as NodePath<t.JSXElement>[], codes, slots, constantTexts, removals);
+    } else {
+      // Text in one copy may be an expression in another ("Revenue" and {stat.label}); both are one prop
+      const values = matches.map((match, i) => {
+        if (match.isJSXText()) {
+          const text = source(i, match.node).trim().replace(/\s+/g, ' ');
+          return { text, value: quoteText(text), selfContained: true };
+        }
+        const expression = match.isJSXExpressionContainer() ? match.get('expression') as NodePath : match;
+        const value = source(i, expression.node);
+        return { text: null, value: `{${value}}`, selfContained: isSelfContained(expression) };
+      });
+      if (values.every((entry) => entry.value === values[0].value && entry.selfContained)) {
+        if (values[0].text) constantTexts.push(values[0].text);
+        return;
+      }
+      const raw = source(0, child.node);
+      const isText = values.some((entry) => entry.text !== null);
+      const isLabel = /Button|Chip|Tab|Link/.test(getTagName(paths[0].node.openingElement.name));
+      slots.push({
+        hint: !isText ? 'content' : isLabel ? 'label' : 'text',
+        values: values.map((entry) => entry.value),
+        start: child.node.start! + (child.isJSXText() ? raw.length - raw.trimStart().length : 0),
+        end: child.node.end! - (child.isJSXText() ? raw.length - raw.trimEnd().length : 0),
+      });
+    }
+  });
+};
+
+// Unique prop names: text, text2, ...
+const nameSlots = (slots: Slot[]): string[] => {
+  const used = new Map<string, number>();
+  return slots.map((slot) => {
+    const count = (used.get(slot.hint) ?? 0) + 1;
+    used.set(slot.hint, count);
+    return count > 1 ? `${slot.hint}${count}` : slot.hint;
+  });
+};
+
+const suggestName = (tag: string, constantTexts: string[]): string => {
+  const base = isIntrinsic(tag) ? 'Block' : tag.split('.').pop()!;
+  const words = (constantTexts[0] ?? '').replace(/[^A-Za-z0-9 ]/g, ' ').split(/\s+/).filter(Boolean).slice(0, 2);
+  const prefix = words.map((word) => word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+  return /^[A-Z]/.test(prefix) ? `${prefix}${base}` : `Shared${base}`;
+};
+
+const renderImport = (code: string, declaration: t.ImportDeclaration, specifiers: t.ImportDeclaration['specifiers']): string => {
+  const defaults = specifiers.filter((specifier) => t.isImportDefaultSpecifier(specifier)).map((specifier) => specifier.local.name);
+  const namespaces = specifiers.filter((specifier) => t.isImportNamespaceSpecifier(specifier)).map((specifier) => `* as ${specifier.local.name}`);
+  const named = specifiers.filter((specifier) => t.isImportSpecifier(specifier)).map((specifier) => code.slice(specifier.start!, specifier.end!));
+  const parts = [...defaults, ...namespaces, ...(named.length > 0 ? [`{ ${named.join(', ')} }`] : [])];
+  return `import ${parts.join(', ')} from '${declaration.source.value}';`;
+};
+
+// Imports the first occurrence uses outside the parts that became props; React comes first
+const collectImports = (path: NodePath<t.JSXElement>, code: string, slots: Slot[]): string[] => {
+  const used = new Map<t.ImportDeclaration, Set<t.ImportDeclaration['specifiers'][number]>>();
+  path.traverse({
+    ReferencedIdentifier(identifierPath) {
+      const { start, end } = identifierPath.node;
+      if (slots.some((slot) => start! >= slot.start && end! <= slot.end)) return;
+      const binding = identifierPath.scope.getBinding((identifierPath.node as t.Identifier | t.JSXIdentifier).name);
+      if (binding?.kind !== 'module' || !t.isImportDeclaration(binding.path.parent)) return;
+      const specifiers = used.get(binding.path.parent) ?? new Set();
+      specifiers.add(binding.path.node as t.ImportDeclaration['specifiers'][number]);
+      used.set(binding.path.parent, specifiers);
+    },
+  });
+  const imports = [...used].map(([declaration, specifiers]) => ({ declaration, specifiers: [...specifiers] }));
+  const react = imports.find(({ declaration }) => declaration.source.value === 'react');
+  const rest = imports.filter((entry) => entry !== react).map(({ declaration, specifiers }) => renderImport(code, declaration, specifiers));
+  const reactNamed = react?.specifiers.filter((specifier) => t.isImportSpecifier(specifier)).map((specifier) => code.slice(specifier.start!, specifier.end!));
+  return [`import React${reactNamed?.length ? `, { ${reactNamed.join(', ')} }` : ''} from 'react';`, ...rest];
+};
+
+// Moves the element's source to the indentation of a return statement's body
+const reindent = (source: string, indent: string): string => {
+  const lines = source.split('\n');
+  const rest = lines.slice(1).filter((line) => line.trim());
+  const minimum = rest.length > 0 ? Math.min(...rest.map((line) => line.length - line.trimStart().length)) : 0;
+  return [lines[0], ...lines.slice(1).map((line) => line.slice(Math.min(minimum, line.length - line.trimStart().length)))]
+    .map((line) => (line.trim() ? indent + line : ''))
+    .join('\n');
+};
+
+const findKey = (path: NodePath<t.JSXElement>, code: string): string | undefined => {
+  const attribute = path.node.openingElement.attributes.find((candidate) =>
+    t.isJSXAttribute(candidate) && getAttributeName(candidate) === 'key') as t.JSXAttribute | undefined;
+  return attribute?.value ? code.slice(attribute.value.start!, attribute.value.end!) : undefined;
+};
+
+// Looks for JSX subtrees repeated across the screens (and within them) that could be one component,
+// with the parts that differ between the copies turned into props
+export const findSharedComponents = (screens: ExtractionScreen[]): SharedComponentAnalysis => {
+  const unparsed: string[] = [];
+  const groups = new Map<string, { elementCount: number; members: Array<{ screen: number; path: NodePath<t.JSXElement> }> }>();
+  screens.forEach((screen, index) => {
+    let ast: t.File;
+    try {
+      ast = parseComponentCode(screen.code);
+    } catch {
+      unparsed.push(screen.name);
+      return;
+    }
+    const memo = new Map<t.Node, Fingerprint | null>();
+    traverse(ast, {
+      JSXElement(path) {
+        const result = fingerprint(path, memo);
+        if (!result || result.elementCount < MIN_ELEMENTS) return;
+        const group = groups.get(result.signature) ?? { elementCount: result.elementCount, members: [] };
+        group.members.push({ screen: index, path });
+        groups.set(result.signature, group);
+      },
+    });
+  });
+
+  // Largest subtrees first; copies inside an already proposed subtree are covered by it
+  const taken: Array<{ screen: number; start: number; end: number }> = [];
+  const candidates = [...groups.values()]
+    .filter((group) => group.members.length >= 2)
+    .sort((a, b) => b.elementCount - a.elementCount || b.members.length - a.members.length);
+  const proposals: SharedComponentProposal[] = [];
+  const usedNames = new Set<string>();
+  for (const group of candidates) {
+    if (proposals.length >= MAX_PROPOSALS) break;
+    const members = group.members.filter(({ screen, path }) => !taken.some((range) =>
+      range.screen === screen && range.start <= path.node.start! && path.node.end! <= range.end
+    ));
+    if (members.length < 2) continue;
+    members.forEach(({ screen, path }) => taken.push({ screen, start: path.node.start!, end: path.node.end! }));
+
+    const codes = members.map(({ screen }) => screens[screen].code);
+    const paths = members.map(({ path }) => path);
+    const slots: Slot[] = [];
+    const constantTexts: string[] = [];
+    const removals: TextEdit[] = [];
+    collectSlots(paths, codes, slots, constantTexts, removals);
+    const propNames = nameSlots(slots);
+
+    const first = paths[0].node;
+    const edits = [...removals, ...slots.map((slot, i) => ({ start: slot.start, end: slot.end, text: `{${propNames[i]}}` }))];
+    const template = reindent(applyEdits(codes[0].slice(first.start!, first.end!), edits, first.start!), '    ');
+
+    const tagName = getTagName(first.openingElement.name);
+    let name = suggestName(tagName, constantTexts);
+    for (let n = 2; usedNames.has(name); n++) name = `${suggestName(tagName, constantTexts)}${n}`;
+    usedNames.add(name);
+
+    proposals.push({
+      id: `shared-${proposals.length}`,
+      name,
+      tagName,
+      elementCount: group.elementCount,
+      propNames,
+      template,
+      imports: collectImports(paths[0], codes[0], slots),
+      occurrences: members.map(({ screen, path }, i) => ({
+        screenId: screens[screen].id,
+        start: path.node.start!,
+        end: path.node.end!,
+        line: path.node.loc!.start.line,
+        props: Object.fromEntries(propNames.map((prop, slot) => [prop, slots[slot].values[i]])),
+        key: findKey(path, codes[i]),
+      })),
+    });
+  }
+  return { proposals, unparsed };
+};
+
+export const renderSharedComponent = (proposal: SharedComponentProposal, name = proposal.name): string =>
+  `${proposal.imports.join('\n')}
+
+export default function ${name}(${proposal.propNames.length > 0 ? `{ ${proposal.propNames.join(', ')} }` : ''}) {
+  return (
+${proposal.template}
+  );
+}
+`;
+
+const renderUsage = (name: string, occurrence: SharedComponentOccurrence, indent: string): string => {
+  const attributes = [
+    ...(occurrence.key ? [`key=${occurrence.key}`] : []),
+    ...Object.entries(occurrence.props).map(([prop, value]) => `${prop}=${value}`),
+  ];
+  const inline = `<${name}${attributes.map((attribute) => ` ${attribute}`).join('')} />`;
+  if (attributes.length <= 2 && inline.length <= 80 && !inline.includes('\n')) return inline;
+  return `<${name}\n${attributes.map((attribute) => `${indent}  ${attribute}`).join('\n')}\n${indent}/>`;
+};
+
+// Drops import specifiers the rewritten screen no longer uses; React stays for the JSX transform
+const pruneUnusedImports = (code: string): string => {
+  const ast = parseComponentCode(code);
+  const edits: TextEdit[] = [];
+  traverse(ast, {
+    Program(path) {
+      for (const statement of path.node.body) {
+        if (!t.isImportDeclaration(statement) || statement.specifiers.length === 0) continue;
+        const kept = statement.specifiers.filter((specifier) =>
+          specifier.local.name === 'React' || path.scope.getBinding(specifier.local.name)?.referenced
+        );
+        if (kept.length === statement.specifiers.length) continue;
+        edits.push(kept.length > 0
+          ? { start: statement.start!, end: statement.end!, text: renderImport(code, statement, kept) }
+          : { start: statement.start!, end: code[statement.end!] === '\n' ? statement.end! + 1 : statement.end!, text: '' });
+      }
+      path.stop();
+    },
+  });
+  return applyEdits(code, edits);
+};
+
+// Writes the chosen proposals as component files and rewrites the screens to import them
+export const extractSharedComponents = (
+  screens: ExtractionScreen[],
+  proposals: SharedComponentProposal[]
+): { components: SharedComponentFile[]; screens: ExtractionScreen[] } => {
+  const names = new Set<string>();
+  for (const proposal of proposals) {
+    if (!COMPONENT_NAME_PATTERN.test(proposal.name)) {
+      throw new Error(`"${proposal.name}" is not a valid component name; use letters and digits, starting with a capital`);
+    }
+    if (names.has(proposal.name)) {
+      throw new Error(`Two components are named ${proposal.name}`);
+    }
+    names.add(proposal.name);
+  }
+
+  const rewritten = screens.map((screen) => {
+    const uses = proposals.flatMap((proposal) => proposal.occurrences
+      .filter((occurrence) => occurrence.screenId === screen.id)
+      .map((occurrence) => ({ proposal, occurrence })));
+    if (uses.length === 0) return screen;
+    const edits = uses.map(({ proposal, occurrence }) => {
+      const lineStart = screen.code.lastIndexOf('\n', occurrence.start - 1) + 1;
+      const indent = screen.code.slice(lineStart, occurrence.start).match(/^\s*/)![0];
+      return { start: occurrence.start, end: occurrence.end, text: renderUsage(proposal.name, occurrence, indent) };
+    });
+    const used = [...new Set(uses.map(({ proposal }) => proposal.name))];
+    const ast = parseComponentCode(screen.code);
+    const lastImport = ast.program.body.filter((statement) => t.isImportDeclaration(statement)).pop();
+    const importLines = used.map((name) => `import ${name} from '${COMPONENTS_IMPORT_DIR}/${name}';`).join('\n');
+    edits.push(lastImport
+      ? { start: lastImport.end!, end: lastImport.end!, text: `\n${importLines}` }
+      : { start: 0, end: 0, text: `${importLines}\n` });
+    return { ...screen, code: pruneUnusedImports(applyEdits(screen.code, edits)) };
+  });
+
+  return {
+    components: proposals.map((proposal) => ({ name: proposal.name, code: renderSharedComponent(proposal) })),
+    screens: rewritten,
+  };
+};
@@ -0,0 +1,434 @@
+import type { CodeFormat } from './codeGenerationProvider';
+
+// Component mapping for each framework
+export const componentMappings = {
+  'react-mui': {
+    button: 'Button',
+    text_input: 'TextField',
+    dropdown: 'Select',
+    checkbox: 'Checkbox',
+    switch: 'Switch',
+    card: 'Card',
+    navigation: 'AppBar',
+    sidebar: 'Drawer',
+    list: 'List',
+    list_item: 'ListItem',
+    tab: 'Tab',
+    tabs: 'Tabs'
+  },
+  'react-native': {
+    button: 'TouchableOpacity',
+    text_input: 'TextInput',
+    dropdown: 'Picker',
+    checkbox: 'Switch',
+    switch: 'Switch',
+    card: 'View',
+    navigation: 'View',
+    sidebar: 'View',
+    list: 'FlatList',
+    list_item: 'View',
+    tab: 'TouchableOpacity',
+    tabs: 'View'
+  },
+  'flutter': {
+    button: 'ElevatedButton',
+    text_input: 'TextField',
+    dropdown: 'DropdownButton',
+    checkbox: 'Checkbox',
+    switch: 'Switch',
+    card: 'Card',
+    navigation: 'AppBar',
+    sidebar: 'Drawer',
+    list: 'ListView',
+    list_item: 'ListTile',
+    tab: 'Tab',
+    tabs: 'TabBar'
+  }
+};
+
+// Structural node types with no framework-specific component
+const LAYOUT_COMPONENTS = {
+  'react-mui': { container: 'Box', text: 'Typography', image: 'Box (component="img")', icon: 'SvgIcon', divider: 'Divider' },
+  'react-native': { container: 'View', text: 'Text', image: 'Image', icon: 'Ionicons', divider: 'View' },
+  'flutter': { container: 'Container', text: 'Text', image: 'Image', icon: 'Icon', divider: 'Divider' },
+};
+
+export type MappedNodeType = keyof typeof componentMappings['react-mui'];
+export type LayoutNodeType = keyof typeof LAYOUT_COMPONENTS['react-mui'];
+export type UINodeType = MappedNodeType | LayoutNodeType;
+
+export const UI_NODE_TYPES = [
+  ...Object.keys(componentMappings['react-mui']),
+  ...Object.keys(LAYOUT_COMPONENTS['react-mui']),
+] as UINodeType[];
+
+export interface UIBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface UIStyles {
+  backgroundColor?: string;
+  color?: string;
+  fontSize?: number;
+  fontWeight?: 'normal' | 'medium' | 'bold';
+  borderRadius?: number;
+  borderColor?: string;
+  padding?: number;
+  shadow?: boolean;
+}
+
+export interface UINode {
+  type: UINodeType;
+  // Pixels in the design image
+  bounds: UIBounds;
+  text?: string;
+  styles?: UIStyles;
+  functionality?: string;
+  children?: UINode[];
+}
+
+export interface UIDescriptionTree {
+  version: 1;
+  summary: string;
+  canvas: { width: number; height: number; background?: string };
+  nodes: UINode[];
+  responsive?: string[];
+}
+
+export interface UIDescriptionParseResult {
+  tree: UIDescriptionTree | null;
+  // JSON paths with what is wrong at each, e.g. "nodes[2].bounds.width: expected a number"
+  errors: string[];
+}
+
+const COLOR_PATTERN = '^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$';
+const FONT_WEIGHTS = ['normal', 'medium', 'bold'];
+
+const boundsSchema = {
+  type: 'object',
+  required: ['x', 'y', 'width', 'height'],
+  properties: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    width: { type: 'number', minimum: 0 },
+    height: { type: 'number', minimum: 0 },
+  },
+};
+
+// JSON Schema (draft-07) sent to the model and mirrored by validateUIDescription
+export const UI_DESCRIPTION_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  type: 'object',
+  required: ['version', 'summary', 'canvas', 'nodes'],
+  properties: {
+    version: { const: 1 },
+    summary: { type: 'string', description: 'One paragraph: what the screen is for and how it is laid out' },
+    canvas: {
+      type: 'object',
+      required: ['width', 'height'],
+      properties: {
+        width: { type: 'number', minimum: 1 },
+        height: { type: 'number', minimum: 1 },
+        background: { type: 'string', pattern: COLOR_PATTERN },
+      },
+    },
+    nodes: { type: 'array', items: { $ref: '#/definitions/node' } },
+    responsive: { type: 'array', items: { type: 'string' } },
+  },
+  definitions: {
+    node: {
+      type: 'object',
+      required: ['type', 'bounds'],
+      properties: {
+        type: { enum: UI_NODE_TYPES },
+        bounds: boundsSchema,
+        text: { type: 'string', description: 'Visible text exactly as shown (label, title or placeholder)' },
+        styles: {
+          type: 'object',
+          properties: {
+            backgroundColor: { type: 'string', pattern: COLOR_PATTERN },
+            color: { type: 'string', pattern: COLOR_PATTERN },
+            fontSize: { type: 'number', minimum: 1 },
+            fontWeight: { enum: FONT_WEIGHTS },
+            borderRadius: { type: 'number', minimum: 0 },
+            borderColor: { type: 'string', pattern: COLOR_PATTERN },
+            padding: { type: 'number', minimum: 0 },
+            shadow: { type: 'boolean' },
+          },
+        },
+        functionality: { type: 'string', description: 'Inferred purpose, e.g. "Submits the login form"' },
+        children: { type: 'array', items: { $ref: '#/definitions/node' } },
+      },
+    },
+  },
+};
+
+type Report = (path: string, message: string) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkNumber = (value: unknown, path: string, report: Report, minimum?: number): boolean => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    report(path, 'expected a number');
+    return false;
+  }
+  if (minimum !== undefined && value < minimum) {
+    report(path, `must be at least ${minimum}`);
+    return false;
+  }
+  return true;
+};
+
+const checkColor = (value: unknown, path: string, report: Report) => {
+  if (typeof value !== 'string' || !new RegExp(COLOR_PATTERN).test(value)) {
+    report(path, 'expected a hex color such as #1976d2');
+  }
+};
+
+const checkOptionalString = (value: unknown, path: string, report: Report) => {
+  if (value !== undefined && typeof value !== 'string') {
+    report(path, 'expected a string');
+  }
+};
+
+const validateStyles = (styles: unknown, path: string, report: Report) => {
+  if (!isObject(styles)) {
+    report(path, 'expected an object');
+    return;
+  }
+  for (const key of ['backgroundColor', 'color', 'borderColor'] as const) {
+    if (styles[key] !== undefined) checkColor(styles[key], `${path}.${key}`, report);
+  }
+  for (const key of ['fontSize', 'borderRadius', 'padding'] as const) {
+    if (styles[key] !== undefined) checkNumber(styles[key], `${path}.${key}`, report, key === 'fontSize' ? 1 : 0);
+  }
+  if (styles.fontWeight !== undefined && !FONT_WEIGHTS.includes(styles.fontWeight as string)) {
+    report(`${path}.fontWeight`, `expected one of ${FONT_WEIGHTS.join(', ')}`);
+  }
+  if (styles.shadow !== undefined && typeof styles.shadow !== 'boolean') {
+    report(`${path}.shadow`, 'expected a boolean');
+  }
+};
+
+const validateNode = (node: unknown, path: string, report: Report) => {
+  if (!isObject(node)) {
+    report(path, 'expected an object');
+    return;
+  }
+  if (!UI_NODE_TYPES.includes(node.type as UINodeType)) {
+    report(`${path}.type`, `expected one of ${UI_NODE_TYPES.join(', ')}`);
+  }
+  if (!isObject(node.bounds)) {
+    report(`${path}.bounds`, 'expected an object with x, y, width and height');
+  } else {
+    checkNumber(node.bounds.x, `${path}.bounds.x`, report);
+    checkNumber(node.bounds.y, `${path}.bounds.y`, report);
+    checkNumber(node.bounds.width, `${path}.bounds.width`, report, 0);
+    checkNumber(node.bounds.height, `${path}.bounds.height`, report, 0);
+  }
+  checkOptionalString(node.text, `${path}.text`, report);
+  checkOptionalString(node.functionality, `${path}.functionality`, report);
+  if (node.styles !== undefined) validateStyles(node.styles, `${path}.styles`, report);
+  if (node.children !== undefined) {
+    if (!Array.isArray(node.children)) {
+      report(`${path}.children`, 'expected an array');
+    } else {
+      node.children.forEach((child, i) => validateNode(child, `${path}.children[${i}]`, report));
+    }
+  }
+};
+
+export const validateUIDescription = (value: unknown): UIDescriptionParseResult => {
+  const errors: string[] = [];
+  const report: Report = (path, message) => errors.push(`${path}: ${message}`);
+  if (!isObject(value)) {
+    return { tree: null, errors: ['(root): expected an object'] };
+  }
+  if (value.version !== 1) report('version', 'expected 1');
+  if (typeof value.summary !== 'string') report('summary', 'expected a string');
+  if (!isObject(value.canvas)) {
+    report('canvas', 'expected an object with width and height');
+  } else {
+    checkNumber(value.canvas.width, 'canvas.width', report, 1);
+    checkNumber(value.canvas.height, 'canvas.height', report, 1);
+    if (value.canvas.background !== undefined) checkColor(value.canvas.background, 'canvas.background', report);
+  }
+  if (!Array.isArray(value.nodes)) {
+    report('nodes', 'expected an array');
+  } else {
+    value.nodes.forEach((node, i) => validateNode(node, `nodes[${i}]`, report));
+  }
+  if (value.responsive !== undefined &&
+    (!Array.isArray(value.responsive) || value.responsive.some((hint) => typeof hint !== 'string'))) {
+    report('responsive', 'expected an array of strings');
+  }
+  return { tree: errors.length === 0 ? (value as unknown as UIDescriptionTree) : null, errors };
+};
+
+// Accepts bare JSON or JSON wrapped in prose or a markdown fence, as models tend to return
+export const parseUIDescription = (text: string): UIDescriptionParseResult => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { tree: null, errors: ['(root): no JSON object found in the response'] };
+  }
+  try {
+    return validateUIDescription(JSON.parse(text.slice(start, end + 1)));
+  } catch (error) {
+    return { tree: null, errors: [`(root): invalid JSON (${error instanceof Error ? error.message : String(error)})`] };
+  }
+};
+
+// Stable formatting, so the same tree always serializes to the same text
+export const serializeUIDescription = (tree: UIDescriptionTree): string => JSON.stringify(tree, null, 2);
+
+export const resolveComponent = (type: UINodeType, codeFormat: CodeFormat): string => {
+  const mapped = componentMappings[codeFormat] as Record<string, string>;
+  const layout = LAYOUT_COMPONENTS[codeFormat] as Record<string, string>;
+  return mapped[type] ?? layout[type];
+};
+
+export const UI_NODE_LABELS: Record<UINodeType, string> = {
+  button: 'Button',
+  text_input: 'Text field',
+  dropdown: 'Dropdown',
+  checkbox: 'Checkbox',
+  switch: 'Switch',
+  card: 'Card',
+  navigation: 'Navigation bar',
+  sidebar: 'Sidebar',
+  list: 'List',
+  list_item: 'List item',
+  tab: 'Tab',
+  tabs: 'Tab bar',
+  container: 'Container',
+  text: 'Text',
+  image: 'Image',
+  icon: 'Icon',
+  divider: 'Divider',
+};
+
+const describeStyles = (styles: UIStyles = {}): string => {
+  const parts = [
+    styles.backgroundColor && `background ${styles.backgroundColor}`,
+    styles.color && `text ${styles.color}`,
+    styles.fontSize && `${styles.fontSize}px${styles.fontWeight && styles.fontWeight !== 'normal' ? ` ${styles.fontWeight}` : ''}`,
+    styles.borderRadius !== undefined && `radius ${styles.borderRadius}px`,
+    styles.borderColor && `border ${styles.borderColor}`,
+    styles.padding !== undefined && `padding ${styles.padding}px`,
+    styles.shadow && 'shadow',
+  ];
+  return parts.filter(Boolean).join(', ');
+};
+
+const describeNode = (node: UINode, depth: number): string[] => {
+  const { x, y, width, height } = node.bounds;
+  const styles = describeStyles(node.styles);
+  const line = `${'  '.repeat(depth)}- ${UI_NODE_LABELS[node.type]}` +
+    (node.text ? ` "${node.text}"` : '') +
+    ` at [x=${x}, y=${y}], ${width}x${height}px` +
+    (styles ? `; ${styles}` : '') +
+    (node.functionality ? ` [functionality: ${node.functionality}]` : '');
+  return [line, ...(node.children ?? []).flatMap((child) => describeNode(child, depth + 1))];
+};
+
+// Index path from the root list, e.g. [1, 0] is the first child of the second top-level node
+export type UINodePath = number[];
+
+export const getNodeAt = (tree: UIDescriptionTree, path: UINodePath): UINode | undefined =>
+  path.reduce<UINode | undefined>(
+    (node, index, depth) => (depth === 0 ? tree.nodes[index] : node?.children?.[index]),
+    undefined
+  );
+
+const mapNodes = (nodes: UINode[], path: UINodePath, update: (node: UINode) => UINode | null): UINode[] => {
+  const [index, ...rest] = path;
+  return nodes.flatMap((node, i) => {
+    if (i !== index) return [node];
+    if (rest.length > 0) return [{ ...node, children: mapNodes(node.children ?? [], rest, update) }];
+    const updated = update(node);
+    return updated ? [updated] : [];
+  });
+};
+
+// Edits return a new tree so React state and the serialized form stay in sync
+export const updateNodeAt = (tree: UIDescriptionTree, path: UINodePath, changes: Partial<UINode>): UIDescriptionTree =>
+  ({ ...tree, nodes: mapNodes(tree.nodes, path, (node) => ({ ...node, ...changes })) });
+
+export const removeNodeAt = (tree: UIDescriptionTree, path: UINodePath): UIDescriptionTree =>
+  ({ ...tree, nodes: mapNodes(tree.nodes, path, () => null) });
+
+const containsBounds = (outer: UIBounds, inner: UIBounds): boolean =>
+  inner.x >= outer.x && inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+
+// Places a node under the deepest existing node that fully contains it and returns where it landed
+export const insertNode = (tree: UIDescriptionTree, node: UINode): { tree: UIDescriptionTree; path: UINodePath } => {
+  const parentPath: UINodePath = [];
+  let siblings = tree.nodes;
+  for (;;) {
+    const index = siblings.findIndex((candidate) => containsBounds(candidate.bounds, node.bounds));
+    if (index === -1) break;
+    parentPath.push(index);
+    siblings = siblings[index].children ?? [];
+  }
+  const path = [...parentPath, siblings.length];
+  if (parentPath.length === 0) {
+    return { tree: { ...tree, nodes: [...tree.nodes, node] }, path };
+  }
+  const nodes = mapNodes(tree.nodes, parentPath, (parent) => ({ ...parent, children: [...(parent.children ?? []), node] }));
+  return { tree: { ...tree, nodes }, path };
+};
+
+export const flattenNodes = (tree: UIDescriptionTree): Array<{ node: UINode; path: UINodePath }> => {
+  const walk = (nodes: UINode[], parent: UINodePath): Array<{ node: UINode; path: UINodePath }> =>
+    nodes.flatMap((node, i) => [{ node, path: [...parent, i] }, ...walk(node.children ?? [], [...parent, i])]);
+  return walk(tree.nodes, []);
+};
+
+// Readable rendering of the tree for the description editor's prose view
+export const renderUIDescriptionProse = (tree: UIDescriptionTree): string => {
+  const sections = [
+    tree.summary,
+    `Canvas ${tree.canvas.width}x${tree.canvas.height}px${tree.canvas.background ? `, background ${tree.canvas.background}` : ''}.`,
+    `STRUCTURE:\n${tree.nodes.flatMap((node) => describeNode(node, 0)).join('\n')}`,
+  ];
+  if (tree.responsive?.length) {
+    sections.push(`RESPONSIVENESS:\n${tree.responsive.map((hint) => `- ${hint}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+};
+
+// Output contract appended to description prompts
+export const buildUIDescriptionInstructions = (): string => `OUTPUT FORMAT (MANDATORY):
+Return ONLY a JSON object, without markdown fences or commentary, that validates against this JSON Schema:
+${JSON.stringify(UI_DESCRIPTION_SCHEMA)}
+
+- "nodes" is the component tree: nest children inside their visual container (cards inside the main area, list items inside lists).
+- "bounds" are pixels in the source image; "type" picks the closest node type, which maps to framework components as follows:
+  - React-MUI: ${JSON.stringify(componentMappings['react-mui'])}
+  - React Native: ${JSON.stringify(componentMappings['react-native'])}
+  - Flutter: ${JSON.stringify(componentMappings['flutter'])}
+- Put every visible string in "text" exactly as shown, and the inferred purpose of interactive nodes in "functionality".
+- Colors are hex strings; font sizes and radii are numbers in px.`;
+
+export const buildUIDescriptionRetry = (errors: string[]): string =>
+  `The previous response did not validate against the schema:\n${errors.slice(0, 20).map((error) => `- ${error}`).join('\n')}\n` +
+  'Return the corrected JSON object only.';
+
+// Prompt section consumed by code generation: the tree itself plus the component names for the target format
+export const buildUIDescriptionPrompt = (tree: UIDescriptionTree, codeFormat: CodeFormat, notes?: string): string => {
+  const mapping = UI_NODE_TYPES.map((type) => `${type} -> ${resolveComponent(type, codeFormat)}`).join(', ');
+  let prompt = `UI COMPONENT TREE (JSON validated against the UI description schema; bounds are px in the design image):
+${serializeUIDescription(tree)}
+
+COMPONENT MAPPING: build each node with its mapped component (${mapping}).`;
+  if (notes) {
+    prompt += `\n\nDESIGNER NOTES (edited by the user; they take precedence over the tree where the two disagree):\n${notes}`;
+  }
+  return prompt;
+};
@@ -0,0 +1,120 @@
+// Compares a rendered component screenshot with the source design image
+
+export interface VisualDiffResult {
+  width: number;
+  height: number;
+  // Share of pixels whose color difference stays under PIXEL_THRESHOLD (0-1)
+  pixelMatch: number;
+  // Mean structural similarity over SSIM_WINDOW blocks of the grayscale images (-1 to 1, 1 = identical)
+  ssim: number;
+  // Red overlay whose opacity follows the per-pixel difference
+  heatmapUrl: string;
+}
+
+// Normalised RGB distance above which two pixels count as different
+const PIXEL_THRESHOLD = 0.1;
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+const MAX_RGB_DISTANCE = Math.sqrt(3 * 255 ** 2);
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image for comparison'));
+    image.src = src;
+  });
+
+const createContext = (width: number, height: number): CanvasRenderingContext2D => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  return context;
+};
+
+// Draws onto white so transparent design exports compare like the rendered page background
+const readPixels = (image: HTMLImageElement, width: number, height: number): ImageData => {
+  const context = createContext(width, height);
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+};
+
+const toGrayscale = ({ data, width, height }: ImageData): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+const computeSSIM = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+  let total = 0;
+  let windows = 0;
+  for (let y = 0; y + SSIM_WINDOW <= height; y += SSIM_WINDOW) {
+    for (let x = 0; x + SSIM_WINDOW <= width; x += SSIM_WINDOW) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let wy = 0; wy < SSIM_WINDOW; wy++) {
+        for (let wx = 0; wx < SSIM_WINDOW; wx++) {
+          const index = (y + wy) * width + x + wx;
+          const va = a[index];
+          const vb = b[index];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const n = SSIM_WINDOW * SSIM_WINDOW;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+};
+
+export const compareImages = (design: HTMLImageElement, rendered: HTMLImageElement): VisualDiffResult => {
+  const width = design.naturalWidth;
+  const height = design.naturalHeight;
+  const designPixels = readPixels(design, width, height);
+  const renderedPixels = readPixels(rendered, width, height);
+
+  const heatmapContext = createContext(width, height);
+  const heatmap = heatmapContext.createImageData(width, height);
+  let matching = 0;
+  for (let i = 0; i < designPixels.data.length; i += 4) {
+    const dr = designPixels.data[i] - renderedPixels.data[i];
+    const dg = designPixels.data[i + 1] - renderedPixels.data[i + 1];
+    const db = designPixels.data[i + 2] - renderedPixels.data[i + 2];
+    const difference = Math.sqrt(dr * dr + dg * dg + db * db) / MAX_RGB_DISTANCE;
+    if (difference <= PIXEL_THRESHOLD) {
+      matching++;
+    }
+    heatmap.data[i] = 239;
+    heatmap.data[i + 1] = 68;
+    heatmap.data[i + 2] = 68;
+    heatmap.data[i + 3] = Math.round(Math.min(1, difference * 2) * 255);
+  }
+  heatmapContext.putImageData(heatmap, 0, 0);
+
+  return {
+    width,
+    height,
+    pixelMatch: matching / (width * height),
+    ssim: computeSSIM(toGrayscale(designPixels), toGrayscale(renderedPixels), width, height),
+    heatmapUrl: heatmapContext.canvas.toDataURL('image/png'),
+  };
+};
@@ -1,10 +1,25 @@
-import { defineConfig } from 'vite';
+import { defaultAllowedOrigins, defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { fileURLToPath } from 'node:url';
+
+// The sandboxed preview iframe has an opaque origin, so its module requests arrive with `Origin: null`
+const cors = { origin: [defaultAllowedOrigins, 'null'] };
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: { cors },
+  preview: { cors },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  build: {
+    rollupOptions: {
+      input: {
+        main: fileURLToPath(new URL('./index.html', import.meta.url)),
+        // Local preview runtime, loaded into the LivePreview iframe
+        preview: fileURLToPath(new URL('./preview.html', import.meta.url)),
+      },
+    },
+  },
 });